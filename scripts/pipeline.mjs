@@ -124,7 +124,7 @@ function makeAliases(relPosix) {
   return [base, noExt];
 }
 
-async function generatePixiManifestFromOutput(buildOutAbs, baseDirRel, outputRel, bundleName = 'main') {
+async function generatePixiManifestFromOutput(buildOutAbs, baseDirRel, outputRel, bundleName = 'main', bundleGlobs = {}) {
   const baseDirAbs = path.join(buildOutAbs, baseDirRel);
   if (!fs.existsSync(baseDirAbs)) {
     console.warn(`Pixi manifest base dir not found: ${path.relative(buildOutAbs, baseDirAbs)}`);
@@ -136,28 +136,46 @@ async function generatePixiManifestFromOutput(buildOutAbs, baseDirRel, outputRel
     ignore.push(outRelFromBase, `${outRelFromBase}/**`);
   }
   // common tool outputs we should not include
-  ignore.push('viewJsons/**', 'assetLists/**');
+  ignore.push('viewJsons/**', '**/viewJsons/**', 'assetLists/**');
   const matches = await globby(defaultPixiPatterns(), { cwd: baseDirAbs, onlyFiles: true, dot: false, ignore });
-  const assets = matches.map((rel) => {
-    const relPosix = toPosix(rel);
-    return {
-      alias: makeAliases(relPosix),
-      src: [relPosix],
-      data: { tags: {} }
-    };
-  });
-  const manifest = {
-    bundles: [
-      {
-        name: bundleName,
-        assets
-      }
-    ]
-  };
+  // An audiosprite is a JSON file with audio files of the same name next to it.
+  // Only the JSON goes in the manifest; the runtime loads the audio through it.
+  const noExt = (rel) => toPosix(rel).replace(/\.[^/.]+$/, '');
+  const isAudio = (rel) => /\.(mp3|ogg|wav|m4a)$/i.test(rel);
+  const audioNames = new Set(matches.filter(isAudio).map(noExt));
+  const spriteNames = new Set(matches.filter((rel) => normalizeExt(rel) === '.json' && audioNames.has(noExt(rel))).map(noExt));
+  // Declared sizes let the runtime weight loading progress by bytes
+  const sizeOf = (rel) => fs.statSync(path.join(baseDirAbs, rel)).size;
+  const assets = matches
+    .filter((rel) => !(isAudio(rel) && spriteNames.has(noExt(rel))))
+    .map((rel) => {
+      const relPosix = toPosix(rel);
+      const isSprite = spriteNames.has(noExt(rel));
+      // A sprite loads its JSON plus one of its audio files
+      const size = isSprite
+        ? sizeOf(rel) + Math.max(0, ...matches.filter((m) => isAudio(m) && noExt(m) === noExt(rel)).map(sizeOf))
+        : sizeOf(rel);
+      return {
+        alias: makeAliases(relPosix),
+        src: [relPosix],
+        data: { tags: isSprite ? { audioSprite: true, size } : { size } }
+      };
+    });
+  // Named bundles claim the files matching their globs; everything else goes to the default bundle
+  const bundles = [];
+  const claimed = new Set();
+  for (const [name, patterns] of Object.entries(bundleGlobs)) {
+    const files = new Set((await globby(patterns, { cwd: baseDirAbs, onlyFiles: true, dot: false, ignore })).map(toPosix));
+    const bundleAssets = assets.filter((asset) => files.has(asset.src[0]) && !claimed.has(asset));
+    bundleAssets.forEach((asset) => claimed.add(asset));
+    bundles.push({ name, assets: bundleAssets });
+  }
+  bundles.unshift({ name: bundleName, assets: assets.filter((asset) => !claimed.has(asset)) });
+  const manifest = { bundles };
   const outAbs = path.join(buildOutAbs, outputRel);
   await ensureDir(path.dirname(outAbs));
   await fsp.writeFile(outAbs, JSON.stringify(manifest, null, 2), 'utf8');
-  console.log(`Pixi manifest → ${path.relative(root, outAbs)} (${assets.length} assets)`);
+  console.log(`Pixi manifest → ${path.relative(root, outAbs)} (${assets.length} assets in ${bundles.length} bundles)`);
 }
 
 async function createAssetLists(assetListCfg, buildOutAbs) {
@@ -322,7 +340,7 @@ async function main() {
     if (!outRelFromBase.startsWith('..')) {
       ignore.push(outRelFromBase, `${outRelFromBase}/**`);
     }
-    ignore.push('viewJsons/**', 'assetLists/**');
+    ignore.push('viewJsons/**', '**/viewJsons/**', 'assetLists/**');
     hasAnyResAssets = (await globby(defaultPixiPatterns(), { cwd: resDir, onlyFiles: true, dot: false, ignore })).length > 0;
   }
   if (!hasAnyResAssets && fs.existsSync(path.join(root, 'src', 'assets'))) {
@@ -333,10 +351,10 @@ async function main() {
   }
   // 3) Asset lists
   await createAssetLists(cfg.assetList, buildOutAbs);
-  // 3.5) Pixi Manifest generation from output (dynamic)
-  await generatePixiManifestFromOutput(buildOutAbs, pixiCfg.baseDir || 'res', pixiCfg.output || 'res/manifest/manifest.json', pixiCfg.bundle || 'main');
-  // 4) Audio sprite
+  // 4) Audio sprite (before the manifest so the sprite JSON is listed in it)
   await generateAudioSprite(cfg.audio, buildOutAbs);
+  // 4.5) Pixi Manifest generation from output (dynamic)
+  await generatePixiManifestFromOutput(buildOutAbs, pixiCfg.baseDir || 'res', pixiCfg.output || 'res/manifest/manifest.json', pixiCfg.bundle || 'main', pixiCfg.bundles);
   // 5) Build code
   if (cfg.buildEntry) {
     await buildCode(cfg.buildEntry, buildOutAbs, mode);
@@ -0,0 +1,245 @@
+import { Container } from "pixi.js";
+import { Globals } from "./globals";
+
+export type AccessibleRole = "button" | "checkbox" | "switch" | "radio" | "slider" | "heading" | "text" | "img";
+
+/** What components accept to describe themselves to screen readers */
+export interface AccessibleOptions {
+    /** Name read by screen readers; defaults to the visible label text */
+    accessibleName?: string;
+    accessibleRole?: AccessibleRole;
+    /** Extra hint read after the name, e.g. what the button does */
+    accessibleDescription?: string;
+}
+
+export interface AccessibleInfo {
+    name: string;
+    role: AccessibleRole;
+    description?: string;
+    disabled?: boolean;
+    /** On/off state of checkboxes, switches and radio buttons */
+    checked?: boolean;
+    /** Current value of sliders; `text` is read instead of the number, e.g. "50%" */
+    value?: { now: number; min: number; max: number; text?: string };
+    /** Can take keyboard focus (interactive items) */
+    focusable?: boolean;
+    /** The screen reader activated the element (double tap, Enter in browse mode) */
+    onActivate?: () => void;
+    /** The element received DOM focus, e.g. from the screen reader's cursor */
+    onFocus?: () => void;
+}
+
+export type AnnouncePoliteness = "polite" | "assertive";
+
+interface Entry {
+    target: Container;
+    info: AccessibleInfo;
+    element: HTMLElement;
+    /** Last written position, to skip unchanged style writes */
+    rect: string;
+}
+
+/** Present in the accessibility tree but not painted; the canvas shows the real thing */
+const HIDDEN_STYLE = "position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;";
+
+/**
+ * Mirrors registered Pixi objects as invisible, positioned HTML elements over
+ * the canvas so screen readers can find, read and activate them, and speaks
+ * announcements through a live region. Positions follow the objects every
+ * frame, so resizes and tweens are tracked.
+ *
+ * Only one mirrored element is a Tab stop at a time (a roving tabindex): the
+ * focused item's, or the first in focus order. Tab enters the game there and
+ * FocusManager moves on from it, so the element order never matters.
+ */
+export class AccessibilityLayer {
+
+    private static _instance: AccessibilityLayer | undefined;
+
+    public static get instance(): AccessibilityLayer {
+        if (!AccessibilityLayer._instance) {
+            AccessibilityLayer._instance = new AccessibilityLayer();
+        }
+        return AccessibilityLayer._instance;
+    }
+
+    private root: HTMLDivElement;
+    private politeRegion: HTMLDivElement;
+    private assertiveRegion: HTMLDivElement;
+    private entries = new Map<Container, Entry>();
+    private lastFocused: Container | null = null;
+    /** The one element with tabIndex 0 */
+    private tabStop: HTMLElement | null = null;
+
+    constructor() {
+        AccessibilityLayer._instance = this;
+        Globals.accessibility = this;
+
+        this.root = document.createElement("div");
+        this.root.className = "pixi-a11y-layer";
+        this.root.style.cssText = "position:absolute;left:0;top:0;width:100%;height:100%;overflow:hidden;pointer-events:none;";
+
+        this.politeRegion = this.createLiveRegion("polite");
+        this.assertiveRegion = this.createLiveRegion("assertive");
+    }
+
+    /**
+     * Mount the layer over the canvas; the host must be the canvas' positioned parent
+     */
+    attach(host: HTMLElement) {
+        host.appendChild(this.root);
+    }
+
+    add(target: Container, info: AccessibleInfo): HTMLElement {
+        this.remove(target);
+
+        const element = document.createElement("div");
+        element.style.cssText = "position:absolute;outline:none;color:transparent;background:transparent;overflow:hidden;pointer-events:none;";
+        element.addEventListener("click", () => {
+            const entry = this.entries.get(target);
+            if (entry && !entry.info.disabled) entry.info.onActivate?.();
+        });
+        element.addEventListener("focus", () => this.entries.get(target)?.info.onFocus?.());
+
+        const entry: Entry = { target, info, element, rect: "" };
+        this.entries.set(target, entry);
+        this.applyInfo(entry);
+        this.root.appendChild(element);
+        target.once("destroyed", () => this.remove(target));
+        return element;
+    }
+
+    /** Change part of a registered object's info, e.g. its name or disabled state */
+    set(target: Container, info: Partial<AccessibleInfo>) {
+        const entry = this.entries.get(target);
+        if (!entry) return;
+        entry.info = { ...entry.info, ...info };
+        this.applyInfo(entry);
+    }
+
+    remove(target: Container) {
+        const entry = this.entries.get(target);
+        if (!entry) return;
+        entry.element.remove();
+        this.entries.delete(target);
+        if (this.lastFocused === target) this.lastFocused = null;
+        if (this.tabStop === entry.element) this.tabStop = null;
+    }
+
+    /**
+     * Have screen readers speak a message, e.g. "Loading complete" or a win amount.
+     * Use "assertive" only for messages that must interrupt.
+     */
+    announce(message: string, politeness: AnnouncePoliteness = "polite") {
+        const region = politeness === "assertive" ? this.assertiveRegion : this.politeRegion;
+        // Clear first so repeating the same message is announced again
+        region.textContent = "";
+        setTimeout(() => (region.textContent = message), 50);
+    }
+
+    /**
+     * Move the mirrored elements onto their objects and follow keyboard focus;
+     * call once per frame
+     */
+    update() {
+        const stage = Globals.app?.stage;
+        this.entries.forEach((entry) => {
+            const { target, element } = entry;
+            if (target.destroyed) {
+                this.remove(target);
+                return;
+            }
+            const available = !!stage && AccessibilityLayer.isAvailable(target, stage);
+            element.hidden = !available;
+            if (!available) return;
+
+            const bounds = target.getBounds();
+            const rect = `${Math.round(bounds.x)},${Math.round(bounds.y)},${Math.round(bounds.width)},${Math.round(bounds.height)}`;
+            if (rect === entry.rect) return;
+            entry.rect = rect;
+            element.style.left = `${Math.round(bounds.x)}px`;
+            element.style.top = `${Math.round(bounds.y)}px`;
+            element.style.width = `${Math.round(bounds.width)}px`;
+            element.style.height = `${Math.round(bounds.height)}px`;
+        });
+
+        const focused = Globals.focusManager?.current ?? null;
+        this.updateTabStop(focused ?? Globals.focusManager?.first ?? null);
+
+        // Keyboard focus moved on the canvas; move DOM focus along so it gets read out
+        if (focused !== this.lastFocused) {
+            this.lastFocused = focused;
+            const element = focused ? this.entries.get(focused)?.element : undefined;
+            if (element && !element.hidden && document.activeElement !== element) {
+                element.focus({ preventScroll: true });
+            }
+        }
+    }
+
+    /**
+     * Remove every mirrored element and the layer itself; the next
+     * AccessibilityLayer.instance access creates a fresh layer
+     */
+    destroy() {
+        this.entries.forEach((entry) => entry.element.remove());
+        this.entries.clear();
+        this.tabStop = null;
+        this.root.remove();
+        if (AccessibilityLayer._instance === this) AccessibilityLayer._instance = undefined;
+        if (Globals.accessibility === this) Globals.accessibility = undefined;
+    }
+
+    private applyInfo(entry: Entry) {
+        const { element, info } = entry;
+        element.textContent = info.name;
+        if (info.role === "text") element.removeAttribute("role");
+        else element.setAttribute("role", info.role);
+        element.setAttribute("aria-label", info.name);
+        if (info.description) element.setAttribute("aria-description", info.description);
+        else element.removeAttribute("aria-description");
+        if (info.disabled) element.setAttribute("aria-disabled", "true");
+        else element.removeAttribute("aria-disabled");
+        if (info.checked !== undefined) element.setAttribute("aria-checked", String(info.checked));
+        else element.removeAttribute("aria-checked");
+        if (info.value) {
+            element.setAttribute("aria-valuenow", String(info.value.now));
+            element.setAttribute("aria-valuemin", String(info.value.min));
+            element.setAttribute("aria-valuemax", String(info.value.max));
+            if (info.value.text !== undefined) element.setAttribute("aria-valuetext", info.value.text);
+            else element.removeAttribute("aria-valuetext");
+        }
+        if (info.focusable) element.tabIndex = element === this.tabStop && !info.disabled ? 0 : -1;
+        else element.removeAttribute("tabindex");
+    }
+
+    private updateTabStop(target: Container | null) {
+        const entry = target ? this.entries.get(target) : undefined;
+        const element = entry?.info.focusable && !entry.info.disabled ? entry.element : null;
+        if (element === this.tabStop) return;
+        if (this.tabStop) this.tabStop.tabIndex = -1;
+        this.tabStop = element;
+        if (element) element.tabIndex = 0;
+    }
+
+    private createLiveRegion(politeness: AnnouncePoliteness): HTMLDivElement {
+        const region = document.createElement("div");
+        region.setAttribute("aria-live", politeness);
+        region.setAttribute("aria-atomic", "true");
+        region.setAttribute("role", politeness === "assertive" ? "alert" : "status");
+        region.style.cssText = HIDDEN_STYLE;
+        this.root.appendChild(region);
+        return region;
+    }
+
+    /** On stage, visible, and not under a container with input switched off (modal overlays) */
+    private static isAvailable(target: Container, stage: Container): boolean {
+        let node: Container | null = target;
+        while (node) {
+            if (!node.visible || node.renderable === false) return false;
+            if (node !== target && node.interactiveChildren === false) return false;
+            if (!node.parent) return node === stage;
+            node = node.parent;
+        }
+        return false;
+    }
+}
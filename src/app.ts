@@ -1,196 +1,21 @@
-import { Application, Texture } from "pixi.js";
-
-import LoadingScene from "./loaders/LoadingScene";
-import { Globals } from "./globals";
-import { SceneManager } from "./scenemanager";
+import { createGame } from "./game";
 import { MainScene } from "./mainscene";
-import { Howl } from "howler";
-import { MyEmitter } from "./myemitter";
-import { config, calculateScaleFactor } from "./appconfig";
-import { Group } from "tweedle.js";
+import { loadRuntimeConfig } from "./runtimeconfig";
 import { logger } from "./utils/logger";
-import { installGlobalErrorOverlay } from "./utils/errorOverlay";
-
-export class Game {
-  private app: Application;
-  private loadingScene!: LoadingScene;
-  private sceneManager!: SceneManager;
-
-  constructor() {
-    this.app = new Application();
-    Globals.emitter = new MyEmitter();
-    logger.info("Game constructor");
-    installGlobalErrorOverlay();
-  }
-
-  async init(): Promise<void> {
-    try {
-      await this.app.init({ 
-        background: config.backgroundColor,
-        resolution: window.devicePixelRatio || 1,
-        autoDensity: true,
-        antialias: true,
-        roundPixels: true,
-        resizeTo: window,
-        hello: true 
-      });
-
-      Globals.app = this.app;
-
-      this.sceneManager = SceneManager.instance;
-      this.app.stage.addChild(this.sceneManager.container);
-      Globals.sceneManager = this.sceneManager;
-
-      const pixiContainer = document.getElementById("pixi-container");
-      if (!pixiContainer) {
-        logger.error("Could not find #pixi-container element");
-        document.body.appendChild(this.app.canvas);
-        logger.warn("#pixi-container not found, appending canvas to document.body.");
-      } else {
-        pixiContainer.appendChild(this.app.canvas);
-      }
-      
-      this.setupCanvasStyles();
-      this.setupResizeHandler();
-
-      // Start ticker BEFORE loading so tweedle.js tweens advance during loading fade-out
-      this.app.ticker.add((ticker) => {
-        const dt = ticker.deltaTime;
-        Group.shared.update();
-        this.sceneManager.update(dt);
-      });
-
-      logger.info("Application initialized, starting loading...");
-      
-      await this.startLoading();
-
-    } catch (error) {
-      logger.error("Application error:", error as any);
-    }
-  }
-
-  private setupCanvasStyles(): void {
-    const canvas = this.app.canvas;
-    canvas.style.position = 'absolute';
-    canvas.style.top = '0';
-    canvas.style.left = '0';
-    canvas.style.width = '100%';
-    canvas.style.height = '100%';
-    canvas.addEventListener('wheel', (e) => e.preventDefault(), { passive: false });
-    canvas.addEventListener('touchmove', (e) => e.preventDefault(), { passive: false });
-    canvas.addEventListener('contextmenu', (e) => e.preventDefault());
-  }
-
-  private setupResizeHandler(): void {
-    let scheduled = false;
-    const doResize = () => {
-      scheduled = false;
-      const width = Math.max(1, Math.floor(window.innerWidth));
-      const height = Math.max(1, Math.floor(window.innerHeight));
+import { showErrorOverlay } from "./utils/errorOverlay";
 
-      calculateScaleFactor();
-
-      // Update renderer resolution for DPR changes, then resize
-      const dpr = window.devicePixelRatio || 1;
-      this.app.renderer.resolution = dpr;
-      this.app.renderer.resize(width, height);
-
-      if (this.sceneManager) {
-        this.sceneManager.resize();
-      }
-      if (this.loadingScene && this.app.stage.children.includes(this.loadingScene)) {
-        this.loadingScene.resize(this.app.screen.width, this.app.screen.height);
-      }
-
-      logger.info(`Resized to ${width}x${height} (dpr=${dpr.toFixed(2)})`);
-    };
-    const schedule = () => {
-      if (!scheduled) {
-        scheduled = true;
-        requestAnimationFrame(doResize);
-      }
-    };
-
-    window.addEventListener('resize', schedule, { passive: true });
-    window.addEventListener('orientationchange', schedule, { passive: true });
-    // Some mobile browsers fire on DPR change without resize
-    matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`).addEventListener?.('change', schedule as any);
-
-    // Initial
-    doResize();
-  }
-
-  async startLoading(): Promise<void> {
-    this.loadingScene = new LoadingScene({
-      manifestPath: 'res/manifest/manifest.json',
-      basePath: 'res/',
-      loadingBarOptions: {
-        width: 400,
-        height: 40,
-        backgroundColor: 0x333333,
-        fillColor: 0x00aaff,
-        textColor: 0xffffff
-      },
-      onComplete: (loadedAssets: Record<string, any>) => {
-        logger.debug('Loading complete! Processing assets:', loadedAssets);
-        this.storeAssets(loadedAssets);
-        this.app.stage.removeChild(this.loadingScene);
-        this.loadingScene.destroy({ children: true, texture: true, baseTexture: true });
-        
-        logger.debug("Globals after loading:", Globals.resources, Globals.soundResources);
-        this.createGameScene();
-      }
-    });
-
-    this.app.stage.addChild(this.loadingScene); 
-    logger.info("Loading scene added to stage");
-
-    logger.info("Starting loading process...");
-    await this.loadingScene.start(this.app.screen.width, this.app.screen.height);
-    logger.info("Loading process initiated by LoadingScene.start()");
-  }
-
-  private storeAssets(assets: Record<string, any>): void {
-    if (!assets || Object.keys(assets).length === 0) {
-        logger.warn("No assets returned from loading or assets object is empty.");
-        return;
-    }
-
-    for (const key in assets) {
-        if (Object.prototype.hasOwnProperty.call(assets, key)) {
-            const resource = assets[key];
-            if (resource instanceof Texture) {
-                Globals.resources[key] = resource;
-                logger.info(`Stored texture: ${key}`);
-            } else if (resource instanceof Howl) { 
-                Globals.soundResources[key] = resource;
-                logger.info(`Stored sound: ${key}`);
-            }
-            // Add more checks for other asset types if needed (e.g., Spritesheet, BitmapFont, JSON data)
-            // else if (resource instanceof Spritesheet) { 
-            //    // If it's a spritesheet, PIXI.Assets often loads it as a Spritesheet object
-            //    // which contains multiple textures. You might want to store them all or the Spritesheet itself.
-            //    Globals.resources[key] = resource; // Storing the Spritesheet object
-            //    // Or iterate through resource.textures and resource.animations
-            //    console.log(`Stored spritesheet: ${key}`); 
-            // }
-            else {
-                logger.warn(`Unknown asset type for key ${key}: ${String(resource)}`);
-                // Optionally store it in a generic way or log, e.g. Globals.resources[key] = resource;
-            }
-        }
-    }
-  }
-
-  createGameScene(): void {
-    logger.info("Creating MainScene...");
-    const mainScene = new MainScene();
-    this.sceneManager.start(mainScene);
-    logger.info("MainScene started via SceneManager");
-    // Ensure scene applies current screen metrics immediately on first load
-    this.sceneManager.resize();
-  }
+// Page bootstrap; embedders import createGame from ./game and mount it themselves
+let element = document.getElementById("pixi-container");
+if (!element) {
+  logger.warn("#pixi-container not found, mounting the game on document.body.");
+  element = document.body;
 }
-
-const game = new Game();
-game.init();
+const host = element;
+
+// config.json next to index.html (optional) and URL parameters like ?debug=1&lang=de
+loadRuntimeConfig()
+  .then((runtimeConfig) => createGame({ element: host, firstScene: MainScene, runtimeConfig }))
+  .catch((error) => {
+    logger.error(error);
+    showErrorOverlay(error?.message ?? String(error));
+  });
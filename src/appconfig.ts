@@ -2,18 +2,89 @@
  * Application configuration and scaling utilities
  */
 
+/**
+ * How the logicalWidth x logicalHeight design area is scaled to the screen:
+ * - fit: whole design visible, letterboxed on one axis
+ * - fill: screen covered, design cropped on one axis
+ * - stretch: both axes scaled independently, aspect ratio not kept
+ * - fixedWidth / fixedHeight: that axis always matches the screen
+ * - pixelPerfect: like fit, but snapped to integer scales (or 1/n below 1)
+ */
+export type ScaleMode = "fit" | "fill" | "stretch" | "fixedWidth" | "fixedHeight" | "pixelPerfect";
+
+/** What is drawn outside the design area: nothing, bars in letterboxColor, or a mask clipping the scene */
+export type LetterboxMode = "none" | "bars" | "mask";
+
+export type Orientation = "landscape" | "portrait";
+
+export interface DesignSize {
+	width: number;
+	height: number;
+}
+
+/** Distances in CSS pixels from each screen edge that may be covered by notches, rounded corners or home indicators */
+export interface SafeAreaInsets {
+	top: number;
+	right: number;
+	bottom: number;
+	left: number;
+}
+
+/** Screen position and scale of the design area */
+export interface DesignTransform {
+	x: number;
+	y: number;
+	scaleX: number;
+	scaleY: number;
+	/** On-screen size of the design area */
+	width: number;
+	height: number;
+}
+
 /**
  * Main application configuration object
  */
 export const config = {
-	/** Logical width of the game (design width) */
+	/** Logical width of the game (design width) for the current orientation */
 	logicalWidth: 1920,
 	
-	/** Logical height of the game (design height) */
+	/** Logical height of the game (design height) for the current orientation */
 	logicalHeight: 1080,
+
+	/** Design resolution per orientation; logicalWidth/Height follow the current one */
+	designSizes: {
+		landscape: { width: 1920, height: 1080 },
+		portrait: { width: 1080, height: 1920 },
+	} as Record<Orientation, DesignSize>,
+
+	/** Safe-area insets from CSS env(safe-area-inset-*), updated by calculateScaleFactor() */
+	safeArea: { top: 0, right: 0, bottom: 0, left: 0 } as SafeAreaInsets,
+
+	/** Current screen orientation, updated by calculateScaleFactor() */
+	orientation: "landscape" as Orientation,
 	
+	/** Size of the host element the canvas fills, in CSS pixels; updated by calculateScaleFactor() */
+	screenWidth: window.innerWidth,
+
+	screenHeight: window.innerHeight,
+
 	/** Default background color for the application */
 	backgroundColor: 0x1099bb,
+
+	/** Verbose logging and debug helpers; set from the runtime config or ?debug=1 */
+	debug: false,
+
+	/** Language code for localized content; set from the runtime config or ?lang= */
+	lang: "en",
+
+	/** Default scale mode; scenes can override it with their static scaleMode */
+	scaleMode: "fit" as ScaleMode,
+
+	/** Default letterbox handling; scenes can override it with their static letterbox */
+	letterbox: "none" as LetterboxMode,
+
+	/** Color of the letterbox bars */
+	letterboxColor: 0x000000,
 	
 	/** Current scale factor based on screen size */
 	scaleFactor: 1,
@@ -28,99 +99,251 @@ export const config = {
 	 * Calculate the top Y position for centered content
 	 */
 	get topY(): number {
-		return (window.innerHeight - (this.logicalHeight * this.scaleFactor)) / 2;
+		return (this.screenHeight - (this.logicalHeight * this.scaleFactor)) / 2;
 	},
 	
 	/**
 	 * Calculate the bottom Y position for centered content
 	 */
 	get bottomY(): number {
-		return window.innerHeight - this.topY;
+		return this.screenHeight - this.topY;
 	},
 	
 	/**
 	 * Calculate the left X position for centered content
 	 */
 	get leftX(): number {
-		return (window.innerWidth - (this.logicalWidth * this.scaleFactor)) / 2;
+		return (this.screenWidth - (this.logicalWidth * this.scaleFactor)) / 2;
 	},
 	
 	/**
 	 * Calculate the right X position for centered content
 	 */
 	get rightX(): number {
-		return window.innerWidth - this.leftX;
+		return this.screenWidth - this.leftX;
 	},
 	
+	/**
+	 * Top Y of the area not covered by device cutouts
+	 */
+	get safeTopY(): number {
+		return this.safeArea.top;
+	},
+
+	/**
+	 * Bottom Y of the area not covered by device cutouts or home indicators
+	 */
+	get safeBottomY(): number {
+		return this.screenHeight - this.safeArea.bottom;
+	},
+
+	/**
+	 * Left X of the area not covered by device cutouts
+	 */
+	get safeLeftX(): number {
+		return this.safeArea.left;
+	},
+
+	/**
+	 * Right X of the area not covered by device cutouts
+	 */
+	get safeRightX(): number {
+		return this.screenWidth - this.safeArea.right;
+	},
+
 	/**
 	 * Calculate the top Y position using minimum scale factor
 	 */
 	get minTopY(): number {
-		return (window.innerHeight - (this.logicalHeight * this.minScaleFactor)) / 2;
+		return (this.screenHeight - (this.logicalHeight * this.minScaleFactor)) / 2;
 	},
 	
 	/**
 	 * Calculate the bottom Y position using minimum scale factor
 	 */
 	get minBottomY(): number {
-		return window.innerHeight - this.minTopY;
+		return this.screenHeight - this.minTopY;
 	},
 	
 	/**
 	 * Calculate the left X position using minimum scale factor
 	 */
 	get minLeftX(): number {
-		return (window.innerWidth - (this.logicalWidth * this.minScaleFactor)) / 2;
+		return (this.screenWidth - (this.logicalWidth * this.minScaleFactor)) / 2;
 	},
 	
 	/**
 	 * Calculate the right X position using minimum scale factor
 	 */
 	get minRightX(): number {
-		return window.innerWidth - this.minLeftX;
+		return this.screenWidth - this.minLeftX;
 	}
 };
 
 /**
- * Calculate and update the scale factors based on current window size
+ * Measure the host element and update the screen size, orientation,
+ * safe area and scale factors
+ * @param host - Element the canvas fills; defaults to the window
  */
-export const calculateScaleFactor = (): void => {
+export const calculateScaleFactor = (host?: HTMLElement | null): void => {
+	const bounds = host?.getBoundingClientRect();
+	config.screenWidth = Math.max(1, Math.floor(bounds ? bounds.width : window.innerWidth));
+	config.screenHeight = Math.max(1, Math.floor(bounds ? bounds.height : window.innerHeight));
+
+	updateOrientation();
+	updateSafeAreaInsets(bounds);
+
 	// Update the device pixel ratio
 	config.devicePixelRatio = window.devicePixelRatio || 1;
 	
 	const maxScaleFactor = Math.max(
-		window.innerWidth / config.logicalWidth,
-		window.innerHeight / config.logicalHeight
+		config.screenWidth / config.logicalWidth,
+		config.screenHeight / config.logicalHeight
 	);
 
 	const minScaleFactor = Math.min(
-		window.innerWidth / config.logicalWidth,
-		window.innerHeight / config.logicalHeight
+		config.screenWidth / config.logicalWidth,
+		config.screenHeight / config.logicalHeight
 	);
 
 	config.scaleFactor = maxScaleFactor;
 	config.minScaleFactor = minScaleFactor;
 };
 
+let safeAreaProbe: HTMLDivElement | null = null;
+
+/**
+ * Read the CSS env(safe-area-inset-*) values into config.safeArea. They are
+ * only non-zero with viewport-fit=cover in the page's viewport meta tag.
+ * @param bounds - Viewport rectangle of the host element; insets are reduced
+ *   by how far the host already sits away from each viewport edge
+ */
+export const updateSafeAreaInsets = (bounds?: DOMRect): SafeAreaInsets => {
+	if (!safeAreaProbe) {
+		// env() only resolves inside CSS, so measure it through an invisible element's padding
+		safeAreaProbe = document.createElement("div");
+		safeAreaProbe.style.cssText = [
+			"position: fixed", "top: 0", "left: 0", "width: 0", "height: 0",
+			"visibility: hidden", "pointer-events: none",
+			"padding-top: env(safe-area-inset-top, 0px)",
+			"padding-right: env(safe-area-inset-right, 0px)",
+			"padding-bottom: env(safe-area-inset-bottom, 0px)",
+			"padding-left: env(safe-area-inset-left, 0px)",
+		].join(";");
+		document.body.appendChild(safeAreaProbe);
+	}
+
+	const style = getComputedStyle(safeAreaProbe);
+	const insets: SafeAreaInsets = {
+		top: parseFloat(style.paddingTop) || 0,
+		right: parseFloat(style.paddingRight) || 0,
+		bottom: parseFloat(style.paddingBottom) || 0,
+		left: parseFloat(style.paddingLeft) || 0,
+	};
+	if (bounds) {
+		insets.top = Math.max(0, insets.top - bounds.top);
+		insets.left = Math.max(0, insets.left - bounds.left);
+		insets.right = Math.max(0, insets.right - (window.innerWidth - bounds.right));
+		insets.bottom = Math.max(0, insets.bottom - (window.innerHeight - bounds.bottom));
+	}
+	config.safeArea = insets;
+	return config.safeArea;
+};
+
+/**
+ * Orientation of a screen of the given size
+ */
+export const getOrientation = (width: number = config.screenWidth, height: number = config.screenHeight): Orientation => {
+	return width >= height ? "landscape" : "portrait";
+};
+
+/**
+ * Switch config.orientation and logicalWidth/Height to match the screen
+ * @returns true if the orientation changed
+ */
+export const updateOrientation = (width: number = config.screenWidth, height: number = config.screenHeight): boolean => {
+	const orientation = getOrientation(width, height);
+	const changed = orientation !== config.orientation;
+	config.orientation = orientation;
+	config.logicalWidth = config.designSizes[orientation].width;
+	config.logicalHeight = config.designSizes[orientation].height;
+	return changed;
+};
+
+/**
+ * Compute where the design area sits on a screen of the given size
+ * @param mode - Scale mode, defaults to config.scaleMode
+ * @param width - Screen width, defaults to config.screenWidth
+ * @param height - Screen height, defaults to config.screenHeight
+ * @param design - Design resolution, defaults to the current logical size
+ */
+export const getDesignTransform = (
+	mode: ScaleMode = config.scaleMode,
+	width: number = config.screenWidth,
+	height: number = config.screenHeight,
+	design: DesignSize = { width: config.logicalWidth, height: config.logicalHeight }
+): DesignTransform => {
+	const scaleX = width / design.width;
+	const scaleY = height / design.height;
+	const fit = Math.min(scaleX, scaleY);
+
+	let sx: number;
+	let sy: number;
+	switch (mode) {
+		case "fill":
+			sx = sy = Math.max(scaleX, scaleY);
+			break;
+		case "stretch":
+			sx = scaleX;
+			sy = scaleY;
+			break;
+		case "fixedWidth":
+			sx = sy = scaleX;
+			break;
+		case "fixedHeight":
+			sx = sy = scaleY;
+			break;
+		case "pixelPerfect":
+			// Integer upscaling; below 1 use 1/2, 1/3... so pixels still map evenly
+			sx = sy = fit >= 1 ? Math.floor(fit) : 1 / Math.ceil(1 / fit);
+			break;
+		case "fit":
+		default:
+			sx = sy = fit;
+			break;
+	}
+
+	const designWidth = design.width * sx;
+	const designHeight = design.height * sy;
+	return {
+		x: (width - designWidth) / 2,
+		y: (height - designHeight) / 2,
+		scaleX: sx,
+		scaleY: sy,
+		width: designWidth,
+		height: designHeight,
+	};
+};
+
 /**
- * Get the maximum scale factor based on current window size
+ * Get the maximum scale factor based on the current screen size
  * @returns The maximum scale factor
  */
 export const getMaxScaleFactor = (): number => {
 	return Math.max(
-		window.innerWidth / config.logicalWidth,
-		window.innerHeight / config.logicalHeight
+		config.screenWidth / config.logicalWidth,
+		config.screenHeight / config.logicalHeight
 	);
 };
 
 /**
- * Get the minimum scale factor based on current window size
+ * Get the minimum scale factor based on the current screen size
  * @returns The minimum scale factor
  */
 export const getMinScaleFactor = (): number => {
 	return Math.min(
-		window.innerWidth / config.logicalWidth,
-		window.innerHeight / config.logicalHeight
+		config.screenWidth / config.logicalWidth,
+		config.screenHeight / config.logicalHeight
 	);
 };
 
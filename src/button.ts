@@ -1,9 +1,62 @@
-import { Container, Sprite, Texture, TextStyle, Rectangle, Graphics } from "pixi.js";
+import { Container, Sprite, Texture, TextStyle, Rectangle, Graphics, Ticker, NineSliceSprite, FederatedPointerEvent } from "pixi.js";
 import { Tween, Group, Easing } from "tweedle.js";
+import { AccessibilityLayer, AccessibleInfo, AccessibleOptions } from "./accessibility";
+import { drawFocusRing, FocusManager } from "./focusmanager";
 import { Globals } from "./globals";
 import { TextLabel } from "./textlabel";
 
-type ButtonState = "normal" | "hover" | "down" | "disabled";
+/** "focused" is the keyboard/gamepad equivalent of hover and shows the focus ring */
+export type ButtonState = "normal" | "hover" | "focused" | "down" | "disabled";
+
+/** Message types buttons send through Globals.emitter */
+export type ButtonEventType = "over" | "out" | "down" | "up" | "upoutside" | "click" | "focus" | "blur" | "longpress" | "repeat" | "doubletap";
+
+/** Identifies which button fired an emitted event */
+export interface ButtonIdentity {
+	/** Unique id of the button within its scene */
+	id?: string;
+	/** Action name used for routing; defaults to the id */
+	action?: string;
+	/** Arbitrary data passed along with every emitted event */
+	payload?: unknown;
+}
+
+/** Keyboard/gamepad navigation through FocusManager */
+export interface ButtonFocusOptions {
+	/** Set to false to leave the button out of focus navigation */
+	focusable?: boolean;
+	/** Explicit Tab order; lower first */
+	focusOrder?: number;
+}
+
+/**
+ * Press gestures on top of plain clicks. A long press or a repeat swallows the
+ * click of that press; a double tap replaces the second click.
+ */
+export interface ButtonGestureOptions {
+	/** Hold this long (ms) to fire onLongPress */
+	longPressMs?: number;
+	onLongPress?: () => void;
+	/** Called every frame while held with 0..1 toward the long press, and with 0 when let go early */
+	onLongPressProgress?: (progress: number) => void;
+	/** Keep firing onRepeat (or a click) while held, e.g. for +/- bet buttons */
+	repeat?: boolean;
+	/** Hold time before the first repeat (default 400) */
+	repeatDelayMs?: number;
+	/** Time between repeats (default 100) */
+	repeatIntervalMs?: number;
+	onRepeat?: () => void;
+	/** A second tap within doubleTapMs (default 300) fires onDoubleTap instead of onClick */
+	onDoubleTap?: () => void;
+	doubleTapMs?: number;
+	/** Ignore clicks that come sooner than this (ms) after the last one */
+	clickCooldownMs?: number;
+}
+
+/** Params sent with every button message */
+export interface ButtonEventParams extends ButtonIdentity {
+	button: Container;
+}
 
 export interface ButtonTextures {
 	normal: Texture;
@@ -12,6 +65,20 @@ export interface ButtonTextures {
 	disabled?: Texture;
 }
 
+/** Border widths in texture pixels that keep their size when the button is resized */
+export interface ButtonNineSlice {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+/** Space kept around the label when a button sizes itself to it */
+export interface ButtonAutoSize {
+	paddingX?: number;
+	paddingY?: number;
+}
+
 export interface ButtonAnimationConfig {
 	hoverScale?: number;
 	downScale?: number;
@@ -19,15 +86,18 @@ export interface ButtonAnimationConfig {
 	durationMs?: number;
 }
 
-export interface ButtonOptions {
-	textures: ButtonTextures;
-	labelText?: string;
-	labelStyle?: TextStyle;
-	anchor?: number;
-	hitAreaPadding?: number;
+/** Options every interactive control (buttons, toggles, sliders) shares */
+export interface BaseControlOptions extends ButtonIdentity, ButtonFocusOptions, AccessibleOptions {
 	animations?: ButtonAnimationConfig;
 	/** If true, only callbacks are invoked; no global emits are fired */
 	callbacksOnly?: boolean;
+}
+
+/** Options UIButton and UIGraphicButton share */
+export interface BaseButtonOptions extends BaseControlOptions, ButtonGestureOptions {
+	labelText?: string;
+	labelStyle?: TextStyle;
+	anchor?: number;
 	onClick?: () => void;
 	onDown?: () => void;
 	onUp?: () => void;
@@ -35,94 +105,399 @@ export interface ButtonOptions {
 	onOut?: () => void;
 }
 
-const DefaultAnim: Required<ButtonAnimationConfig> = {
+export interface ButtonOptions extends BaseButtonOptions {
+	textures: ButtonTextures;
+	hitAreaPadding?: number;
+	/** Stretch only the middle of the textures; every state texture uses the same borders */
+	nineSlice?: ButtonNineSlice;
+	/** Button size; defaults to the normal texture's size */
+	width?: number;
+	height?: number;
+	/** Grow to fit the label plus padding (default 24 x 12); width/height become minimums */
+	autoSize?: boolean | ButtonAutoSize;
+}
+
+export const DefaultAnim: Required<ButtonAnimationConfig> = {
 	hoverScale: 1.06,
 	downScale: 0.96,
 	disabledAlpha: 0.5,
 	durationMs: 120,
 };
 
-export class UIButton extends Container {
-	private sprite: Sprite;
-	private titleLabel?: TextLabel;
-	private state: ButtonState = "normal";
-	private textures: ButtonTextures;
-	private anim: Required<ButtonAnimationConfig>;
-	private currentTween: Tween<any> | undefined;
-	private baseScale:number = 1;
-	private callbacksOnly: boolean;
+/**
+ * Timing for ButtonGestureOptions, shared by both button classes. begin()/end()
+ * bracket a press, tap() decides what a completed press turns into.
+ */
+class PressGesture {
+	private elapsed = 0;
+	private nextRepeatAt = 0;
+	private longPressed = false;
+	private repeated = false;
+	private lastClickAt = -Infinity;
+	private lastTapAt = -Infinity;
+	private ticker?: Ticker;
+
+	constructor(
+		private options: ButtonGestureOptions,
+		private emit: (type: ButtonEventType) => void,
+		private click: () => void
+	) { }
+
+	begin(): void {
+		this.stop();
+		this.elapsed = 0;
+		this.longPressed = false;
+		this.repeated = false;
+		this.nextRepeatAt = this.options.repeatDelayMs ?? 400;
+		if (this.options.longPressMs === undefined && !this.options.repeat) return;
+		// The game's ticker, so holds pause with the game
+		this.ticker = Globals.app?.ticker ?? Ticker.shared;
+		this.ticker.add(this.update, this);
+	}
 
-	constructor(options: ButtonOptions) {
-		super();
+	end(): void {
+		if (!this.ticker) return;
+		this.stop();
+		if (this.options.longPressMs !== undefined && !this.longPressed) this.options.onLongPressProgress?.(0);
+	}
 
-		this.textures = options.textures;
-		this.anim = { ...DefaultAnim, ...(options.animations ?? {}) };
-		this.callbacksOnly = !!options.callbacksOnly;
+	tap(): void {
+		const swallowed = this.longPressed || this.repeated;
+		this.longPressed = false;
+		this.repeated = false;
+		if (swallowed) return;
+
+		const now = performance.now();
+		if (this.options.clickCooldownMs && now - this.lastClickAt < this.options.clickCooldownMs) return;
+		if (this.options.onDoubleTap && now - this.lastTapAt <= (this.options.doubleTapMs ?? 300)) {
+			this.lastTapAt = -Infinity;
+			this.lastClickAt = now;
+			this.options.onDoubleTap();
+			this.emit("doubletap");
+			return;
+		}
+		this.lastTapAt = now;
+		this.lastClickAt = now;
+		this.click();
+	}
 
-		this.sprite = new Sprite(this.textures.normal);
-		this.sprite.anchor.set(options.anchor ?? 0.5);
-		this.addChild(this.sprite);
+	stop(): void {
+		this.ticker?.remove(this.update, this);
+		this.ticker = undefined;
+	}
 
-		if (options.labelText) {
-			this.titleLabel = new TextLabel(0, 0, 0.5, options.labelText, 20, 0xffffff, "Arial");
-			this.addChild(this.titleLabel);
+	private update(ticker: Ticker): void {
+		this.elapsed += ticker.deltaMS;
+		const { longPressMs, repeat } = this.options;
+
+		if (longPressMs !== undefined && !this.longPressed) {
+			const progress = Math.min(1, this.elapsed / Math.max(1, longPressMs));
+			this.options.onLongPressProgress?.(progress);
+			if (progress >= 1) {
+				this.longPressed = true;
+				this.options.onLongPress?.();
+				this.emit("longpress");
+			}
 		}
 
-		if (options.hitAreaPadding) {
-			const b = this.sprite.getLocalBounds();
-			const pad = options.hitAreaPadding;
-			this.hitArea = new Rectangle(b.x - pad, b.y - pad, b.width + pad * 2, b.height + pad * 2);
+		if (repeat && this.elapsed >= this.nextRepeatAt) {
+			this.repeated = true;
+			this.nextRepeatAt += Math.max(16, this.options.repeatIntervalMs ?? 100);
+			if (this.options.onRepeat) this.options.onRepeat();
+			else this.click();
+			this.emit("repeat");
 		}
 
+		if (!repeat && (longPressMs === undefined || this.longPressed)) this.stop();
+	}
+}
+
+/**
+ * The state machine every interactive control shares: hover, press and focus
+ * from pointer, keyboard and gamepad, the focus ring, the disabled state,
+ * screen-reader registration and the hover and press scale tweens.
+ * Subclasses react to input through the on*() hooks, draw each state in
+ * updateVisualsForState() and add focusRing above their visuals.
+ */
+export abstract class BaseControl<O extends BaseControlOptions = BaseControlOptions> extends Container {
+	protected state: ButtonState = "normal";
+	protected anim: Required<ButtonAnimationConfig>;
+	/** Scale at rest; the hover and press tweens multiply it */
+	private baseScale = { x: 1, y: 1 };
+	protected options: O;
+	protected callbacksOnly: boolean;
+	protected focusRing = new Graphics();
+	/** What the hover and press tweens scale; the control itself by default */
+	protected scaleTarget: Container = this;
+	/** While set (e.g. a slider drag), pointer over/out leave the state alone */
+	protected pointerCaptured = false;
+	private currentTween?: Tween<any>;
+	private focusable: boolean;
+	private focused = false;
+	public id?: string;
+	public action?: string;
+	public payload?: unknown;
+	public focusOrder?: number;
+
+	constructor(options: O, accessible: Pick<AccessibleInfo, "name" | "role" | "checked" | "value">) {
+		super();
+		this.id = options.id;
+		this.action = options.action;
+		this.payload = options.payload;
+		this.options = options;
+		this.focusable = options.focusable ?? true;
+		this.focusOrder = options.focusOrder;
+		this.anim = { ...DefaultAnim, ...(options.animations ?? {}) };
+		this.callbacksOnly = !!options.callbacksOnly;
+
+		this.focusRing.visible = false;
+		if (this.focusable) FocusManager.instance.register(this);
+		AccessibilityLayer.instance.add(this, {
+			...accessible,
+			description: options.accessibleDescription,
+			focusable: this.focusable,
+			onActivate: () => this.activate(),
+			onFocus: () => {
+				if (this.focusable) FocusManager.instance.focus(this);
+			},
+		});
+
 		this.eventMode = "static";
 		this.cursor = "pointer";
 
 		this.on("pointerover", () => {
-			if (this.state === "disabled") return;
+			if (this.state === "disabled" || this.pointerCaptured) return;
 			this.setState("hover");
-			options.onOver?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("over");
+			this.onOver();
 		});
 		this.on("pointerout", () => {
-			if (this.state === "disabled") return;
-			this.setState("normal");
-			options.onOut?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("out");
+			if (this.state === "disabled" || this.pointerCaptured) return;
+			this.setState(this.focused ? "focused" : "normal");
+			this.onOut();
 		});
-		this.on("pointerdown", () => {
+		this.on("pointerdown", (e: FederatedPointerEvent) => {
 			if (this.state === "disabled") return;
 			this.setState("down");
-			options.onDown?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("down");
+			this.onPress(e);
 		});
 		this.on("pointerup", () => {
 			if (this.state === "disabled") return;
 			this.setState("hover");
-			options.onUp?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("up");
+			this.onRelease(false);
 		});
 		this.on("pointerupoutside", () => {
 			if (this.state === "disabled") return;
-			this.setState("normal");
-			options.onUp?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("upoutside");
-		});
-		this.on("pointertap", () => {
-			if (this.state === "disabled") return;
-			options.onClick?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("click");
+			this.setState(this.focused ? "focused" : "normal");
+			this.onRelease(true);
 		});
-
-		this.updateVisualsForState(true);
+		this.on("pointertap", () => this.activate());
 	}
 
 	public setEnabled(enabled: boolean): void {
+		if (!enabled && this.focused) FocusManager.instance.blur();
 		this.state = enabled ? "normal" : "disabled";
 		this.eventMode = enabled ? "static" : "none";
 		this.cursor = enabled ? "pointer" : "auto";
+		AccessibilityLayer.instance.set(this, { disabled: !enabled });
 		this.updateVisualsForState();
 	}
 
+	get canFocus(): boolean {
+		return this.focusable && this.state !== "disabled";
+	}
+
+	/**
+	 * Scale the control, e.g. from Scene.layout(). Setting scale directly on a
+	 * control whose tweens scale the control itself would be undone by the
+	 * next hover or press.
+	 */
+	public setBaseScale(x: number, y = x): void {
+		if (this.scaleTarget !== this) {
+			this.scale.set(x, y);
+			return;
+		}
+		this.baseScale = { x, y };
+		this.updateVisualsForState(true);
+	}
+
+	public setFocused(focused: boolean): void {
+		if (this.focused === focused) return;
+		this.focused = focused;
+		this.focusRing.visible = focused;
+		if (focused && this.state === "normal") this.setState("focused");
+		else if (!focused && this.state === "focused") this.setState("normal");
+		this.onFocusChange(focused);
+	}
+
+	public focusPress(): void {
+		if (this.state === "disabled") return;
+		this.setState("down");
+		this.onPress();
+	}
+
+	public focusRelease(activate: boolean): void {
+		if (this.state === "disabled") return;
+		this.setState(this.focused ? "focused" : "normal");
+		this.onRelease(false);
+		if (activate) this.activate();
+	}
+
+	/**
+	 * Show the current state; `immediate` skips the tweens. Subclasses draw
+	 * their look for the state, then call this for the alpha and scale.
+	 */
+	protected updateVisualsForState(immediate = false): void {
+		this.alpha = this.state === "disabled" ? this.anim.disabledAlpha : 1;
+		const factor =
+			this.state === "down" ? this.anim.downScale :
+			this.state === "hover" || this.state === "focused" ? this.anim.hoverScale : 1;
+		this.playScaleTween(this.baseScale.x * factor, this.baseScale.y * factor, immediate);
+	}
+
+	/** Pointer or Enter/Space/A went down; `e` is only given for pointers */
+	protected onPress(_e?: FederatedPointerEvent): void { }
+
+	/** The press ended; `outside` when the pointer was released off the control */
+	protected onRelease(_outside: boolean): void { }
+
+	protected onOver(): void { }
+
+	protected onOut(): void { }
+
+	/** A completed press from any input, including screen readers */
+	protected onActivate(): void { }
+
+	protected onFocusChange(_focused: boolean): void { }
+
+	protected setState(next: ButtonState): void {
+		if (this.state === next) return;
+		this.state = next;
+		this.updateVisualsForState();
+	}
+
+	private activate(): void {
+		if (this.state === "disabled") return;
+		this.onActivate();
+	}
+
+	private playScaleTween(x: number, y: number, immediate: boolean): void {
+		if (this.currentTween) {
+			this.currentTween.stop();
+			this.currentTween = undefined;
+		}
+		if (immediate) {
+			this.scaleTarget.scale.set(x, y);
+			return;
+		}
+		this.currentTween = new Tween(this.scaleTarget.scale)
+			.to({ x, y }, this.anim.durationMs)
+			.easing(Easing.Cubic.Out)
+			.start();
+		Group.shared.update(0);
+	}
+}
+
+/**
+ * Shared behaviour of UIButton and UIGraphicButton on top of BaseControl:
+ * press gestures, the on*() callbacks and the button messages.
+ */
+export abstract class BaseButton<O extends BaseButtonOptions = BaseButtonOptions> extends BaseControl<O> {
+	private gesture: PressGesture;
+
+	constructor(options: O) {
+		super(options, {
+			name: options.accessibleName ?? options.labelText ?? options.id ?? "Button",
+			role: options.accessibleRole ?? "button",
+		});
+		this.gesture = new PressGesture(options, (type) => this.emitButtonEvent(type), () => {
+			options.onClick?.();
+			this.emitButtonEvent("click");
+		});
+		this.once("destroyed", () => this.gesture.stop());
+	}
+
+	public setEnabled(enabled: boolean): void {
+		if (!enabled) this.gesture.stop();
+		super.setEnabled(enabled);
+	}
+
+	protected onPress(): void {
+		this.gesture.begin();
+		this.options.onDown?.();
+		this.emitButtonEvent("down");
+	}
+
+	protected onRelease(outside: boolean): void {
+		this.gesture.end();
+		this.options.onUp?.();
+		this.emitButtonEvent(outside ? "upoutside" : "up");
+	}
+
+	protected onOver(): void {
+		this.options.onOver?.();
+		this.emitButtonEvent("over");
+	}
+
+	protected onOut(): void {
+		this.options.onOut?.();
+		this.emitButtonEvent("out");
+	}
+
+	/** Gestures decide whether the press clicks */
+	protected onActivate(): void {
+		this.gesture.tap();
+	}
+
+	protected onFocusChange(focused: boolean): void {
+		this.emitButtonEvent(focused ? "focus" : "blur");
+	}
+
+	private emitButtonEvent(type: ButtonEventType): void {
+		if (this.callbacksOnly) return;
+		const params: ButtonEventParams = { id: this.id, action: this.action ?? this.id, payload: this.payload, button: this };
+		Globals.emitter?.Call(type, params);
+	}
+}
+
+export class UIButton extends BaseButton<ButtonOptions> {
+	private sprite: Sprite | NineSliceSprite;
+	private titleLabel?: TextLabel;
+	private textures: ButtonTextures;
+	/** Explicit size from the options or setButtonSize() */
+	private buttonWidth?: number;
+	private buttonHeight?: number;
+
+	constructor(options: ButtonOptions) {
+		super(options);
+
+		this.textures = options.textures;
+		this.buttonWidth = options.width;
+		this.buttonHeight = options.height;
+
+		this.sprite = options.nineSlice
+			? new NineSliceSprite({
+				texture: this.textures.normal,
+				leftWidth: options.nineSlice.left,
+				topHeight: options.nineSlice.top,
+				rightWidth: options.nineSlice.right,
+				bottomHeight: options.nineSlice.bottom,
+			})
+			: new Sprite(this.textures.normal);
+		this.sprite.anchor.set(options.anchor ?? 0.5);
+		this.addChild(this.sprite);
+
+		if (options.labelText) {
+			this.titleLabel = new TextLabel(0, 0, 0.5, options.labelText, 20, 0xffffff, "Arial");
+			if (options.labelStyle) this.titleLabel.style = options.labelStyle;
+			this.addChild(this.titleLabel);
+		}
+
+		this.addChild(this.focusRing);
+		this.updateSize();
+
+		this.updateVisualsForState(true);
+	}
+
 	public setLabel(text: string, style?: TextStyle): void {
 		if (!this.titleLabel) {
 			this.titleLabel = new TextLabel(0, 0, 0.5, text, 20, 0xffffff, "Arial");
@@ -132,11 +507,49 @@ export class UIButton extends Container {
 			this.titleLabel.updateLabelText(text);
 			if (style) this.titleLabel.style = style;
 		}
+		if (!this.options.accessibleName) AccessibilityLayer.instance.set(this, { name: text });
+		this.updateSize();
 	}
 
 	public setTextures(textures: Partial<ButtonTextures>): void {
 		this.textures = { ...this.textures, ...textures };
 		this.updateVisualsForState(true);
+		this.updateSize();
+	}
+
+	/**
+	 * Resize the button without scaling it; nine-slice buttons keep their corners.
+	 * With autoSize the label can still make it larger.
+	 */
+	public setButtonSize(width?: number, height?: number): void {
+		this.buttonWidth = width;
+		this.buttonHeight = height;
+		this.updateSize();
+	}
+
+	private updateSize(): void {
+		const { nineSlice, autoSize } = this.options;
+		let width = this.buttonWidth;
+		let height = this.buttonHeight;
+		if (autoSize && this.titleLabel) {
+			const { paddingX = 24, paddingY = 12 } = typeof autoSize === "object" ? autoSize : {};
+			const minWidth = nineSlice ? nineSlice.left + nineSlice.right : 0;
+			const minHeight = nineSlice ? nineSlice.top + nineSlice.bottom : 0;
+			width = Math.max(width ?? minWidth, this.titleLabel.width + paddingX * 2);
+			height = Math.max(height ?? this.textures.normal.height, minHeight, this.titleLabel.height + paddingY * 2);
+		}
+		// Plain sprites keep the texture size unless a size is asked for
+		if (width !== undefined || nineSlice) this.sprite.width = width ?? this.textures.normal.width;
+		if (height !== undefined || nineSlice) this.sprite.height = height ?? this.textures.normal.height;
+
+		// In button space, so a stretched plain sprite is measured at its drawn size
+		const { width: w, height: h, anchor } = this.sprite;
+		const b = new Rectangle(-anchor.x * w, -anchor.y * h, w, h);
+		if (this.options.hitAreaPadding) {
+			const pad = this.options.hitAreaPadding;
+			this.hitArea = new Rectangle(b.x - pad, b.y - pad, b.width + pad * 2, b.height + pad * 2);
+		}
+		drawFocusRing(this.focusRing, b.x, b.y, b.width, b.height);
 	}
 
 	public setAnimations(animations: Partial<ButtonAnimationConfig>): void {
@@ -144,55 +557,24 @@ export class UIButton extends Container {
 		this.updateVisualsForState(true);
 	}
 
-	private setState(next: ButtonState): void {
-		if (this.state === next) return;
-		this.state = next;
-		this.updateVisualsForState();
-	}
-
-	private updateVisualsForState(immediate = false): void {
+	protected updateVisualsForState(immediate = false): void {
 		switch (this.state) {
 			case "disabled":
-				if (this.textures.disabled) this.sprite.texture = this.textures.disabled;
-				else this.sprite.texture = this.textures.normal;
-				this.playScaleTween(this.baseScale, immediate);
-				this.alpha = this.anim.disabledAlpha;
+				this.sprite.texture = this.textures.disabled ?? this.textures.normal;
 				break;
 			case "down":
-				if (this.textures.down) this.sprite.texture = this.textures.down;
-				else this.sprite.texture = this.textures.normal;
-				this.alpha = 1;
-				this.playScaleTween(this.anim.downScale, immediate);
+				this.sprite.texture = this.textures.down ?? this.textures.normal;
 				break;
 			case "hover":
-				if (this.textures.hover) this.sprite.texture = this.textures.hover;
-				else this.sprite.texture = this.textures.normal;
-				this.alpha = 1;
-				this.playScaleTween(this.anim.hoverScale, immediate);
+			case "focused":
+				this.sprite.texture = this.textures.hover ?? this.textures.normal;
 				break;
 			case "normal":
 			default:
 				this.sprite.texture = this.textures.normal;
-				this.alpha = 1;
-				this.playScaleTween(this.baseScale, immediate);
 				break;
 		}
-	}
-
-	private playScaleTween(targetScale: number, immediate: boolean): void {
-		if (this.currentTween) {
-			this.currentTween.stop();
-			this.currentTween = undefined;
-		}
-		if (immediate) {
-			this.scale.set(targetScale);
-			return;
-		}
-		this.currentTween = new Tween(this.scale)
-			.to({ x: targetScale, y: targetScale }, this.anim.durationMs)
-			.easing(Easing.Cubic.Out)
-			.start();
-		Group.shared.update();
+		super.updateVisualsForState(immediate);
 	}
 }
 
@@ -209,36 +591,18 @@ export interface GraphicButtonStyle {
 	strokeWidth?: number;
 }
 
-export interface GraphicButtonOptions {
+export interface GraphicButtonOptions extends BaseButtonOptions {
 	style: GraphicButtonStyle;
-	labelText?: string;
-	labelStyle?: TextStyle;
-	anchor?: number;
-	animations?: ButtonAnimationConfig;
-	/** If true, only callbacks are invoked; no global emits are fired */
-	callbacksOnly?: boolean;
-	onClick?: () => void;
-	onDown?: () => void;
-	onUp?: () => void;
-	onOver?: () => void;
-	onOut?: () => void;
 }
 
-export class UIGraphicButton extends Container {
+export class UIGraphicButton extends BaseButton<GraphicButtonOptions> {
 	private bg: Graphics;
 	private titleLabel?: TextLabel;
-	private state: ButtonState = "normal";
 	private style: GraphicButtonStyle;
-	private anim: Required<ButtonAnimationConfig>;
-	private currentTween?: Tween<any>;
-	private baseScale = 1;
-	private callbacksOnly: boolean;
 
 	constructor(options: GraphicButtonOptions) {
-		super();
+		super(options);
 		this.style = options.style;
-		this.anim = { ...DefaultAnim, ...(options.animations ?? {}) };
-		this.callbacksOnly = !!options.callbacksOnly;
 
 		this.bg = new Graphics();
 		this.addChild(this.bg);
@@ -252,56 +616,13 @@ export class UIGraphicButton extends Container {
 			this.addChild(this.titleLabel);
 		}
 
-		this.eventMode = "static";
-		this.cursor = "pointer";
-
-		this.on("pointerover", () => {
-			if (this.state === "disabled") return;
-			this.setState("hover");
-			options.onOver?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("over");
-		});
-		this.on("pointerout", () => {
-			if (this.state === "disabled") return;
-			this.setState("normal");
-			options.onOut?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("out");
-		});
-		this.on("pointerdown", () => {
-			if (this.state === "disabled") return;
-			this.setState("down");
-			options.onDown?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("down");
-		});
-		this.on("pointerup", () => {
-			if (this.state === "disabled") return;
-			this.setState("hover");
-			options.onUp?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("up");
-		});
-		this.on("pointerupoutside", () => {
-			if (this.state === "disabled") return;
-			this.setState("normal");
-			options.onUp?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("upoutside");
-		});
-		this.on("pointertap", () => {
-			if (this.state === "disabled") return;
-			options.onClick?.();
-			if (!this.callbacksOnly) Globals.emitter?.Call("click");
-		});
+		this.addChild(this.focusRing);
+		this.drawFocusRing();
 
 		this.redraw();
 		this.updateVisualsForState(true);
 	}
 
-	public setEnabled(enabled: boolean): void {
-		this.state = enabled ? "normal" : "disabled";
-		this.eventMode = enabled ? "static" : "none";
-		this.cursor = enabled ? "pointer" : "auto";
-		this.updateVisualsForState();
-	}
-
 	public setLabel(text: string, style?: TextStyle): void {
 		if (!this.titleLabel) {
 			this.titleLabel = new TextLabel(this.style.width / 2, this.style.height / 2, 0.5, text, 20, 0xffffff, "Arial");
@@ -311,11 +632,17 @@ export class UIGraphicButton extends Container {
 			this.titleLabel.updateLabelText(text);
 			if (style) this.titleLabel.style = style;
 		}
+		if (!this.options.accessibleName) AccessibilityLayer.instance.set(this, { name: text });
 	}
 
 	public setStyle(style: Partial<GraphicButtonStyle>) {
 		this.style = { ...this.style, ...style };
 		this.redraw();
+		this.drawFocusRing();
+	}
+
+	private drawFocusRing(): void {
+		drawFocusRing(this.focusRing, 0, 0, this.style.width, this.style.height);
 	}
 
 	private redraw() {
@@ -335,42 +662,17 @@ export class UIGraphicButton extends Container {
 	private getFillColorForState(): number {
 		const { fillNormal, fillHover, fillDown, fillDisabled } = this.style;
 		switch (this.state) {
-			case "hover": return fillHover ?? fillNormal;
+			case "hover":
+			case "focused": return fillHover ?? fillNormal;
 			case "down": return fillDown ?? fillHover ?? fillNormal;
 			case "disabled": return fillDisabled ?? fillNormal;
 			default: return fillNormal;
 		}
 	}
 
-	private setState(next: ButtonState): void {
-		if (this.state === next) return;
-		this.state = next;
-		this.updateVisualsForState();
-	}
-
-	private updateVisualsForState(immediate = false): void {
+	protected updateVisualsForState(immediate = false): void {
 		this.redraw();
-		this.alpha = this.state === "disabled" ? this.anim.disabledAlpha : 1;
-		const target =
-			this.state === "down" ? this.anim.downScale :
-			this.state === "hover" ? this.anim.hoverScale : this.baseScale;
-		this.playScaleTween(target, immediate);
-	}
-
-	private playScaleTween(targetScale: number, immediate: boolean): void {
-		if (this.currentTween) {
-			this.currentTween.stop();
-			this.currentTween = undefined;
-		}
-		if (immediate) {
-			this.scale.set(targetScale);
-			return;
-		}
-		this.currentTween = new Tween(this.scale)
-			.to({ x: targetScale, y: targetScale }, this.anim.durationMs)
-			.easing(Easing.Cubic.Out)
-			.start();
-		Group.shared.update();
+		super.updateVisualsForState(immediate);
 	}
 }
 
@@ -0,0 +1,123 @@
+import { logger } from "./utils/logger";
+
+export type EventMap = Record<string, unknown>;
+
+/** "*" matches every event, "ui:*" every event in the "ui" namespace */
+export type WildcardPattern = "*" | `${string}:*`;
+
+export type EventKey<E extends EventMap> = keyof E & string;
+
+export type EventPayload<E extends EventMap, K extends string> = K extends keyof E ? E[K] : unknown;
+
+export type EventHandler<P = unknown> = (payload: P, event: string) => void;
+
+export interface ListenerOptions {
+    /** Higher priorities run first; equal priorities run in subscription order */
+    priority?: number;
+    /** Remove the listener after its first call */
+    once?: boolean;
+}
+
+interface Listener {
+    pattern: string;
+    handler: EventHandler<any>;
+    priority: number;
+    once: boolean;
+    /** Part of the bus itself; off() without a handler and clear() skip it */
+    internal: boolean;
+}
+
+/**
+ * Publish/subscribe bus with a typed event map. Event names may be namespaced
+ * with ":" (e.g. "ui:click"), and listeners may subscribe to wildcard patterns.
+ */
+export class EventBus<E extends EventMap = EventMap> {
+
+    private listeners: Listener[] = [];
+
+    /**
+     * Subscribe to an event or wildcard pattern.
+     * @returns a function that removes the listener
+     */
+    on<K extends EventKey<E> | WildcardPattern>(
+        event: K,
+        handler: EventHandler<EventPayload<E, K>>,
+        options: ListenerOptions = {}
+    ): () => void {
+        return this.addListener({
+            pattern: event,
+            handler,
+            priority: options.priority ?? 0,
+            once: !!options.once,
+            internal: false,
+        });
+    }
+
+    once<K extends EventKey<E> | WildcardPattern>(
+        event: K,
+        handler: EventHandler<EventPayload<E, K>>,
+        options: Omit<ListenerOptions, "once"> = {}
+    ): () => void {
+        return this.on(event, handler, { ...options, once: true });
+    }
+
+    /**
+     * Remove a listener. Without a handler, every listener registered for
+     * exactly that event or pattern is removed, except the bus' internal ones.
+     */
+    off<K extends EventKey<E> | WildcardPattern>(event: K, handler?: EventHandler<EventPayload<E, K>>): void {
+        this.listeners = this.listeners.filter((l) => l.pattern !== event || (handler === undefined ? l.internal : l.handler !== handler));
+    }
+
+    emit<K extends EventKey<E>>(event: K, payload: E[K]): void {
+        // Snapshot so listeners can subscribe/unsubscribe while handling
+        for (const listener of this.listeners.slice()) {
+            if (!EventBus.matches(listener.pattern, event)) continue;
+            if (listener.once) this.removeListener(listener);
+            try {
+                listener.handler(payload, event);
+            } catch (error) {
+                logger.error(`EventBus: listener for "${event}" threw`, error);
+            }
+        }
+    }
+
+    hasListeners(event: string): boolean {
+        return this.listeners.some((l) => EventBus.matches(l.pattern, event));
+    }
+
+    /** Remove every listener except the bus' internal ones */
+    clear(): void {
+        this.listeners = this.listeners.filter((l) => l.internal);
+    }
+
+    /**
+     * Subscribe a listener that belongs to the bus itself (a subclass'
+     * bridge), which only the returned function removes
+     */
+    protected onInternal(event: string, handler: EventHandler<any>, priority = 0): () => void {
+        return this.addListener({ pattern: event, handler, priority, once: false, internal: true });
+    }
+
+    private addListener(listener: Listener): () => void {
+        // Insert after every listener with the same or higher priority
+        const index = this.listeners.findIndex((l) => l.priority < listener.priority);
+        if (index === -1) this.listeners.push(listener);
+        else this.listeners.splice(index, 0, listener);
+
+        return () => this.removeListener(listener);
+    }
+
+    private removeListener(listener: Listener) {
+        const index = this.listeners.indexOf(listener);
+        if (index !== -1) this.listeners.splice(index, 1);
+    }
+
+    static matches(pattern: string, event: string): boolean {
+        if (pattern === "*" || pattern === event) return true;
+        if (pattern.endsWith(":*")) {
+            return event.startsWith(pattern.slice(0, -1));
+        }
+        return false;
+    }
+}
@@ -0,0 +1,398 @@
+import { Container, Graphics } from "pixi.js";
+import { Globals } from "./globals";
+import { logger } from "./utils/logger";
+
+/**
+ * Something keyboard/gamepad navigation can land on. UIButton and
+ * UIGraphicButton implement it and register themselves.
+ */
+export interface Focusable extends Container {
+    /** Explicit Tab order; lower first. Unordered items follow in reading order */
+    focusOrder?: number;
+    /** False while disabled or otherwise not selectable */
+    readonly canFocus: boolean;
+    setFocused(focused: boolean): void;
+    /** Enter/Space/A went down on the focused item */
+    focusPress(): void;
+    /** Enter/Space/A was released; `activate` is false if focus moved away meanwhile */
+    focusRelease(activate: boolean): void;
+    /**
+     * Let the item use a key itself (a slider taking arrow keys) before it
+     * moves focus. D-pad directions arrive as "ArrowUp" etc. Return true if used.
+     */
+    handleKey?(key: string): boolean;
+}
+
+export type FocusDirection = "up" | "down" | "left" | "right";
+
+export interface FocusRingStyle {
+    color: number;
+    width: number;
+    /** Gap between the item's bounds and the ring */
+    padding: number;
+    radius: number;
+}
+
+/** Standard gamepad mapping button indices */
+const PAD_A = 0;
+const PAD_UP = 12;
+const PAD_DOWN = 13;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+const STICK_THRESHOLD = 0.5;
+/** Hold a direction this long before it starts repeating, then repeat at this interval */
+const REPEAT_DELAY_MS = 400;
+const REPEAT_INTERVAL_MS = 150;
+
+const KEY_DIRECTIONS: Record<string, FocusDirection> = {
+    ArrowUp: "up",
+    ArrowDown: "down",
+    ArrowLeft: "left",
+    ArrowRight: "right",
+};
+
+const DIRECTION_KEYS: Record<FocusDirection, string> = {
+    up: "ArrowUp",
+    down: "ArrowDown",
+    left: "ArrowLeft",
+    right: "ArrowRight",
+};
+
+/**
+ * Draw a focus ring around a rectangle in the item's local space
+ */
+export const drawFocusRing = (ring: Graphics, x: number, y: number, width: number, height: number, style: FocusRingStyle = FocusManager.ringStyle) => {
+    const pad = style.padding;
+    ring.clear()
+        .roundRect(x - pad, y - pad, width + pad * 2, height + pad * 2, style.radius)
+        .stroke({ color: style.color, width: style.width });
+};
+
+/**
+ * Moves focus between buttons with Tab/arrow keys or a gamepad and activates
+ * them with Enter/Space/A. Only items on stage, visible, enabled and not
+ * blocked by a modal overlay (or outside the current focus trap) are reachable.
+ *
+ * Keys are read from the element attach() is given, so they only act while
+ * the game has focus; Tab past the last item leaves the game for the page.
+ */
+export class FocusManager {
+
+    private static _instance: FocusManager | undefined;
+
+    public static get instance(): FocusManager {
+        if (!FocusManager._instance) {
+            FocusManager._instance = new FocusManager();
+        }
+        return FocusManager._instance;
+    }
+
+    /** Look of the focus ring drawn by the built-in buttons */
+    static ringStyle: FocusRingStyle = { color: 0xffd54f, width: 3, padding: 6, radius: 14 };
+
+    private items = new Set<Focusable>();
+    private focused: Focusable | null = null;
+    private pressed: Focusable | null = null;
+    private traps: Container[] = [];
+    private removeListeners: Array<() => void> = [];
+
+    private padButtons: boolean[] = [];
+    private padDirection: FocusDirection | null = null;
+    private padRepeatAt = 0;
+
+    constructor() {
+        FocusManager._instance = this;
+        Globals.focusManager = this;
+    }
+
+    /**
+     * Handle keys pressed while focus is inside the host (the canvas' parent,
+     * or anything in it such as the accessibility layer). Clicking the game
+     * focuses the host so it keeps receiving keys.
+     */
+    attach(host: HTMLElement) {
+        this.removeListeners.splice(0).forEach((remove) => remove());
+        if (!host.hasAttribute("tabindex")) {
+            // Focusable by click and script, but not a Tab stop of its own
+            host.tabIndex = -1;
+            host.style.outline = "none";
+            this.removeListeners.push(() => {
+                host.removeAttribute("tabindex");
+                host.style.outline = "";
+            });
+        }
+        this.setupKeyboard(host);
+    }
+
+    get current(): Focusable | null {
+        return this.focused;
+    }
+
+    /** The item Tab lands on first, or null when nothing is reachable */
+    get first(): Focusable | null {
+        return this.getCandidates().sort(FocusManager.compareOrder)[0] ?? null;
+    }
+
+    register(item: Focusable) {
+        this.items.add(item);
+        item.once("destroyed", () => this.unregister(item));
+    }
+
+    unregister(item: Focusable) {
+        this.items.delete(item);
+        if (this.focused === item) this.focused = null;
+        if (this.pressed === item) this.pressed = null;
+    }
+
+    /**
+     * Give explicit Tab order to a list of items
+     */
+    setOrder(items: Focusable[]) {
+        items.forEach((item, index) => (item.focusOrder = index));
+    }
+
+    focus(item: Focusable | null) {
+        if (item === this.focused) return;
+        if (item && !this.isReachable(item)) {
+            logger.warn("FocusManager: item is not focusable right now", item);
+            return;
+        }
+        if (this.pressed) {
+            this.pressed.focusRelease(false);
+            this.pressed = null;
+        }
+        this.focused?.setFocused(false);
+        this.focused = item;
+        item?.setFocused(true);
+    }
+
+    blur() {
+        this.focus(null);
+    }
+
+    /**
+     * Give focus back to an item if nothing else has it and the item can
+     * still take it, e.g. when the popup that took focus from it closes
+     */
+    restore(item: Focusable | null) {
+        if (item && !this.focused && this.isReachable(item)) this.focus(item);
+    }
+
+    /**
+     * Keep focus inside a container (a modal popup) until release() is called
+     * with it. Traps nest; the innermost one applies.
+     */
+    trap(container: Container) {
+        this.traps.push(container);
+        if (this.focused && !this.isReachable(this.focused)) this.blur();
+    }
+
+    release(container: Container) {
+        const index = this.traps.lastIndexOf(container);
+        if (index !== -1) this.traps.splice(index, 1);
+    }
+
+    /**
+     * Move to the next (or previous) item in Tab order
+     * @returns false if focus stayed where it was, e.g. nothing is focusable
+     */
+    next(reverse = false): boolean {
+        const candidates = this.getCandidates().sort(FocusManager.compareOrder);
+        if (candidates.length === 0) return false;
+        const index = this.focused ? candidates.indexOf(this.focused) : -1;
+        const nextIndex = index === -1
+            ? (reverse ? candidates.length - 1 : 0)
+            : (index + (reverse ? -1 : 1) + candidates.length) % candidates.length;
+        const previous = this.focused;
+        this.focus(candidates[nextIndex]);
+        return this.focused !== previous;
+    }
+
+    /** Move to the nearest item in a direction on screen */
+    move(direction: FocusDirection) {
+        if (this.focused && this.isReachable(this.focused) && this.focused.handleKey?.(DIRECTION_KEYS[direction])) return;
+        const candidates = this.getCandidates();
+        if (!this.focused || !candidates.includes(this.focused)) {
+            const first = candidates.sort(FocusManager.compareOrder)[0];
+            if (first) this.focus(first);
+            return;
+        }
+
+        const from = FocusManager.center(this.focused);
+        let best: Focusable | null = null;
+        let bestScore = Infinity;
+        for (const item of candidates) {
+            if (item === this.focused) continue;
+            const to = FocusManager.center(item);
+            const dx = to.x - from.x;
+            const dy = to.y - from.y;
+            const primary = direction === "left" ? -dx : direction === "right" ? dx : direction === "up" ? -dy : dy;
+            if (primary <= 0) continue;
+            const secondary = direction === "left" || direction === "right" ? Math.abs(dy) : Math.abs(dx);
+            // Prefer items in line with the current one over closer diagonal ones
+            const score = primary + secondary * 2;
+            if (score < bestScore) {
+                bestScore = score;
+                best = item;
+            }
+        }
+        if (best) this.focus(best);
+    }
+
+    /** Press the focused item, as Enter/Space/A do */
+    press() {
+        if (!this.focused || this.pressed || !this.isReachable(this.focused)) return;
+        this.pressed = this.focused;
+        this.focused.focusPress();
+    }
+
+    /** Release a press started with press(); activates the item */
+    releasePress() {
+        const pressed = this.pressed;
+        if (!pressed) return;
+        this.pressed = null;
+        pressed.focusRelease(pressed === this.focused && this.isReachable(pressed));
+    }
+
+    /**
+     * Poll gamepads; call once per frame
+     */
+    update() {
+        if (typeof navigator === "undefined" || !navigator.getGamepads) return;
+
+        const pad = Array.from(navigator.getGamepads()).find((gamepad) => gamepad?.connected);
+        if (!pad) return;
+
+        const isDown = (index: number) => !!pad.buttons[index]?.pressed;
+        const wasDown = (index: number) => !!this.padButtons[index];
+
+        if (isDown(PAD_A) && !wasDown(PAD_A)) this.press();
+        if (!isDown(PAD_A) && wasDown(PAD_A)) this.releasePress();
+
+        const [axisX = 0, axisY = 0] = pad.axes;
+        const direction: FocusDirection | null =
+            isDown(PAD_UP) || axisY < -STICK_THRESHOLD ? "up" :
+            isDown(PAD_DOWN) || axisY > STICK_THRESHOLD ? "down" :
+            isDown(PAD_LEFT) || axisX < -STICK_THRESHOLD ? "left" :
+            isDown(PAD_RIGHT) || axisX > STICK_THRESHOLD ? "right" : null;
+
+        const now = performance.now();
+        if (direction !== this.padDirection) {
+            this.padDirection = direction;
+            this.padRepeatAt = now + REPEAT_DELAY_MS;
+            if (direction) this.move(direction);
+        } else if (direction && now >= this.padRepeatAt) {
+            this.padRepeatAt = now + REPEAT_INTERVAL_MS;
+            this.move(direction);
+        }
+
+        this.padButtons = pad.buttons.map((button) => button.pressed);
+    }
+
+    /**
+     * Remove the keyboard listeners from the host; the next
+     * FocusManager.instance access creates a fresh manager
+     */
+    destroy() {
+        this.blur();
+        this.removeListeners.splice(0).forEach((remove) => remove());
+        this.items.clear();
+        this.traps = [];
+        if (FocusManager._instance === this) FocusManager._instance = undefined;
+        if (Globals.focusManager === this) Globals.focusManager = undefined;
+    }
+
+    private setupKeyboard(host: HTMLElement) {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (FocusManager.isTextInput(e.target)) return;
+            const direction = KEY_DIRECTIONS[e.key];
+            if (e.key === "Tab") {
+                if (this.isAtTabEdge(e.shiftKey)) {
+                    // Let the browser move on to the rest of the page
+                    this.blur();
+                    return;
+                }
+                // Nothing to move to (loading screen, no buttons): Tab leaves the game.
+                // A lone item inside a trap keeps it, as a modal should
+                if (!this.next(e.shiftKey) && !this.focused) return;
+            } else if (direction) {
+                this.move(direction);
+            } else if ((e.key === "Enter" || e.key === " ") && this.focused) {
+                if (!e.repeat) this.press();
+            } else if (this.focused && this.isReachable(this.focused) && this.focused.handleKey?.(e.key)) {
+                // Used by the focused item, e.g. Home/End on a slider
+            } else {
+                return;
+            }
+            e.preventDefault();
+        };
+        const onKeyUp = (e: KeyboardEvent) => {
+            if (e.key === "Enter" || e.key === " ") this.releasePress();
+        };
+        const onPointerDown = () => {
+            // Pixi prevents the default on pointerdown, which would keep focus where it was
+            if (!host.contains(document.activeElement)) host.focus({ preventScroll: true });
+            // Pointer users get no ring; the next key press brings it back
+            this.blur();
+        };
+
+        host.addEventListener("keydown", onKeyDown);
+        host.addEventListener("keyup", onKeyUp);
+        host.addEventListener("pointerdown", onPointerDown, true);
+        this.removeListeners.push(() => {
+            host.removeEventListener("keydown", onKeyDown);
+            host.removeEventListener("keyup", onKeyUp);
+            host.removeEventListener("pointerdown", onPointerDown, true);
+        });
+    }
+
+    /**
+     * Focus is on the last item (the first when going back) and no trap holds
+     * it in, so Tab should leave the game instead of wrapping around
+     */
+    private isAtTabEdge(reverse: boolean): boolean {
+        if (this.traps.length > 0 || !this.focused) return false;
+        const candidates = this.getCandidates().sort(FocusManager.compareOrder);
+        return candidates[reverse ? 0 : candidates.length - 1] === this.focused;
+    }
+
+    private getCandidates(): Focusable[] {
+        return Array.from(this.items).filter((item) => this.isReachable(item));
+    }
+
+    private isReachable(item: Focusable): boolean {
+        if (item.destroyed || !item.canFocus) return false;
+        const trap = this.traps[this.traps.length - 1];
+        let insideTrap = !trap;
+
+        // Must be attached to the stage, visible, and not under a container with input switched off
+        let node: Container | null = item;
+        while (node) {
+            if (!node.visible || node.renderable === false) return false;
+            if (node !== item && node.interactiveChildren === false) return false;
+            if (node === trap) insideTrap = true;
+            if (!node.parent) return node === Globals.app?.stage && insideTrap;
+            node = node.parent;
+        }
+        return false;
+    }
+
+    private static center(item: Container) {
+        const bounds = item.getBounds();
+        return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    }
+
+    private static compareOrder(a: Focusable, b: Focusable): number {
+        const orderA = a.focusOrder ?? Infinity;
+        const orderB = b.focusOrder ?? Infinity;
+        if (orderA !== orderB) return orderA < orderB ? -1 : 1;
+        const ca = FocusManager.center(a);
+        const cb = FocusManager.center(b);
+        // Same row (within a few pixels) reads left to right
+        return Math.abs(ca.y - cb.y) > 4 ? ca.y - cb.y : ca.x - cb.x;
+    }
+
+    private static isTextInput(target: EventTarget | null): boolean {
+        return target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+    }
+}
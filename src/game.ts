@@ -0,0 +1,400 @@
+import { Application, Assets } from "pixi.js";
+
+import LoadingScene from "./loaders/LoadingScene";
+import { LoadingManagerOptions } from "./loaders/LoadingManager";
+import { Globals } from "./globals";
+import { SceneClass, SceneManager } from "./scenemanager";
+import { Scene } from "./scene";
+import { GameEvents, MyEmitter } from "./myemitter";
+import { EventHandler, EventKey, EventPayload, ListenerOptions, WildcardPattern } from "./eventbus";
+import { SoundManager } from "./soundmanager";
+import { FocusManager } from "./focusmanager";
+import { AccessibilityLayer } from "./accessibility";
+import BundleManager from "./loaders/BundleManager";
+import AssetRegistry from "./loaders/AssetRegistry";
+import { LoadingBarOptions } from "./ui/LoadingBar";
+import { RuntimeConfig } from "./runtimeconfig";
+import { config, calculateScaleFactor } from "./appconfig";
+import { Group } from "tweedle.js";
+import { logger, setDebugLogging } from "./utils/logger";
+import { installGlobalErrorOverlay } from "./utils/errorOverlay";
+
+/** Settings from appconfig a game may override; the whole config is restored on destroy() */
+export type GameConfig = Partial<Pick<typeof config,
+  "backgroundColor" | "designSizes" | "scaleMode" | "letterbox" | "letterboxColor" | "debug" | "lang">>;
+
+/** Copy of config's plain values (not its getters), deep enough to restore it later */
+const snapshotConfig = (): Partial<typeof config> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(config))) {
+    if (!('value' in descriptor)) continue;
+    const value = descriptor.value;
+    snapshot[key] = value && typeof value === 'object' ? structuredClone(value) : value;
+  }
+  return snapshot as Partial<typeof config>;
+};
+
+const DEFAULT_LOADING_BAR: LoadingBarOptions = {
+  width: 400,
+  height: 40,
+  backgroundColor: 0x333333,
+  fillColor: 0x00aaff,
+  textColor: 0xffffff
+};
+
+export interface CreateGameOptions {
+  /** Element the canvas is mounted into and sized to */
+  element: HTMLElement;
+  config?: GameConfig;
+  /** Scene started once the boot assets are loaded: a Scene class, or a factory */
+  firstScene: SceneClass | (() => Scene);
+  manifestPath?: string;
+  basePath?: string;
+  viewJsonPath?: string;
+  /** Bundles to load before the first scene; defaults to every bundle */
+  bundles?: string[];
+  loaderOptions?: LoadingManagerOptions;
+  loadingBarOptions?: LoadingBarOptions;
+  /**
+   * Deployment settings from loadRuntimeConfig(). They take precedence over
+   * the options above so environments and QA can override them without a rebuild.
+   */
+  runtimeConfig?: RuntimeConfig;
+}
+
+/**
+ * One running game: its Pixi application, scenes, sounds, assets, focus
+ * manager and accessibility layer. Create it with createGame().
+ *
+ * Each game builds all of these itself and tears them down on destroy(),
+ * along with everything it changed in the shared config, so games can be
+ * created one after another. Running two at once is not supported: Pixi's
+ * Assets and Cache and tweedle's Group.shared are process-wide, and Globals,
+ * FocusManager.instance, AccessibilityLayer.instance and config are how the
+ * rest of the code reaches the game. Creating a second game therefore throws
+ * until the first is destroyed (or failed to boot, which destroys it).
+ */
+export class Game {
+  private static current: Game | null = null;
+
+  readonly app: Application;
+  /** Resolves once the first scene has started; rejects if booting fails */
+  readonly ready: Promise<void>;
+
+  private options: CreateGameOptions;
+  private emitter = new MyEmitter();
+  private assets = new AssetRegistry();
+  private loadingScene: LoadingScene | null = null;
+  private sceneManager!: SceneManager;
+  private soundManager!: SoundManager;
+  private focusManager!: FocusManager;
+  private accessibility!: AccessibilityLayer;
+  private bundleManager: BundleManager | null = null;
+  /** The config as it was before this game started */
+  private savedConfig: Partial<typeof config> = {};
+  private cleanups: Array<() => void> = [];
+  private paused = false;
+  private destroyed = false;
+
+  constructor(options: CreateGameOptions) {
+    if (Game.current) {
+      throw new Error("A game is already running; destroy() it before creating another");
+    }
+    Game.current = this;
+
+    this.options = options;
+    this.app = new Application();
+    logger.info("Game constructor");
+
+    this.ready = this.init();
+    // Boot errors are logged and emitted as "game:error"; awaiting ready is optional
+    this.ready.catch(() => { });
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Subscribe to game events ("game:ready", "click", ...).
+   * @returns a function that removes the listener
+   */
+  on<K extends EventKey<GameEvents> | WildcardPattern>(
+    event: K,
+    handler: EventHandler<EventPayload<GameEvents, K>>,
+    options?: ListenerOptions
+  ): () => void {
+    return this.emitter.on(event, handler, options);
+  }
+
+  /** Stop updating, rendering and tweens, and pause all sounds */
+  pause(): void {
+    if (this.paused || this.destroyed) return;
+    this.paused = true;
+    this.app.ticker?.stop();
+    this.soundManager?.pauseAll();
+    this.emitter.emit("game:paused", this);
+  }
+
+  resume(): void {
+    if (!this.paused || this.destroyed) return;
+    this.paused = false;
+    this.app.ticker?.start();
+    this.soundManager?.resumeAll();
+    this.emitter.emit("game:resumed", this);
+  }
+
+  /**
+   * Close every scene, unload all assets, remove the canvas and page
+   * listeners, and restore the config. The element can host a new game after.
+   */
+  async destroy(): Promise<void> {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    logger.info("Destroying game");
+
+    this.cleanups.splice(0).forEach((cleanup) => cleanup());
+    this.app.ticker?.stop();
+
+    if (this.sceneManager) {
+      await this.sceneManager.destroy();
+    }
+    if (this.loadingScene && !this.loadingScene.destroyed) {
+      this.loadingScene.destroy({ children: true });
+    }
+    this.bundleManager?.release(this);
+    this.assets.clear();
+    // Forget the manifest and resolved aliases so the next game can Assets.init() again
+    Assets.reset();
+    this.soundManager?.destroy();
+    this.focusManager?.destroy();
+    this.accessibility?.destroy();
+
+    this.emitter.emit("game:destroyed", this);
+    this.emitter.clear();
+
+    if (this.app.renderer) {
+      this.app.destroy({ removeView: true }, { children: true });
+    }
+    Object.assign(config, this.savedConfig);
+    setDebugLogging(config.debug);
+
+    Globals.app = undefined;
+    Globals.emitter = undefined;
+    Globals.sceneManager = undefined;
+    Globals.soundManager = undefined;
+    Globals.bundleManager = undefined;
+    Globals.focusManager = undefined;
+    Globals.accessibility = undefined;
+    Globals.assets = new AssetRegistry();
+    Game.current = null;
+  }
+
+  private async init(): Promise<void> {
+    try {
+      this.applyConfig();
+      installGlobalErrorOverlay();
+
+      Globals.emitter = this.emitter;
+      Globals.assets = this.assets;
+
+      const host = this.options.element;
+      calculateScaleFactor(host);
+
+      await this.app.init({
+        background: config.backgroundColor,
+        width: config.screenWidth,
+        height: config.screenHeight,
+        resolution: window.devicePixelRatio || 1,
+        autoDensity: true,
+        antialias: true,
+        roundPixels: true,
+        hello: true
+      });
+      if (this.destroyed) {
+        this.app.destroy({ removeView: true }, { children: true });
+        return;
+      }
+
+      Globals.app = this.app;
+      this.soundManager = new SoundManager();
+      // Fresh ones, so nothing registered before this game (or by the last one) carries over.
+      // They become FocusManager.instance and AccessibilityLayer.instance until destroy()
+      this.focusManager = new FocusManager();
+      this.accessibility = new AccessibilityLayer();
+
+      this.sceneManager = new SceneManager();
+      this.app.stage.addChild(this.sceneManager.container);
+
+      host.appendChild(this.app.canvas);
+      this.accessibility.attach(host);
+      this.focusManager.attach(host);
+
+      this.setupCanvasStyles();
+      this.setupResizeHandler();
+
+      // Start ticker BEFORE loading so tweedle.js tweens advance during loading fade-out.
+      // Tweens get the ticker's delta rather than wall-clock time, so they hold still while paused
+      this.app.ticker.add((ticker) => {
+        const dt = ticker.deltaTime;
+        Group.shared.update(ticker.deltaMS);
+        this.focusManager.update();
+        this.sceneManager.update(dt, ticker.deltaMS);
+        this.accessibility.update();
+      });
+
+      logger.info("Application initialized, starting loading...");
+
+      await this.startLoading();
+      if (this.destroyed) return;
+
+      await this.startFirstScene();
+      if (this.destroyed) return;
+
+      this.emitter.emit("game:ready", this);
+    } catch (error) {
+      // destroy() during boot cancels the loading steps still pending; that is not a boot failure
+      if (this.destroyed) return;
+      logger.error("Application error:", error as any);
+      this.emitter.emit("game:error", { error });
+      // Undo what was set up, so the element and the single game slot can be used again
+      await this.destroy().catch((destroyError) => logger.error("Cleanup after failed boot failed:", destroyError));
+      throw error;
+    }
+  }
+
+  private applyConfig(): void {
+    const runtime = this.options.runtimeConfig ?? {};
+    const overrides: GameConfig = { ...this.options.config };
+    if (runtime.designSizes) {
+      overrides.designSizes = { ...config.designSizes, ...overrides.designSizes, ...runtime.designSizes };
+    }
+    for (const key of ["backgroundColor", "scaleMode", "letterbox", "debug", "lang"] as const) {
+      if (runtime[key] !== undefined) (overrides as Record<string, unknown>)[key] = runtime[key];
+    }
+
+    // Screen size, orientation and safe area are measured for this game's element, so restore those too
+    this.savedConfig = snapshotConfig();
+    Object.assign(config, overrides);
+    setDebugLogging(config.debug);
+  }
+
+  private setupCanvasStyles(): void {
+    const canvas = this.app.canvas;
+    canvas.style.position = 'absolute';
+    canvas.style.top = '0';
+    canvas.style.left = '0';
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    canvas.addEventListener('wheel', (e) => e.preventDefault(), { passive: false });
+    canvas.addEventListener('touchmove', (e) => e.preventDefault(), { passive: false });
+    canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+  }
+
+  private setupResizeHandler(): void {
+    const host = this.options.element;
+    let frame: number | null = null;
+    const doResize = () => {
+      frame = null;
+      calculateScaleFactor(host);
+      const width = config.screenWidth;
+      const height = config.screenHeight;
+
+      // Update renderer resolution for DPR changes, then resize
+      const dpr = window.devicePixelRatio || 1;
+      this.app.renderer.resolution = dpr;
+      this.app.renderer.resize(width, height);
+
+      this.sceneManager.resize();
+      if (this.loadingScene && this.app.stage.children.includes(this.loadingScene)) {
+        this.loadingScene.resize(this.app.screen.width, this.app.screen.height);
+      }
+
+      logger.info(`Resized to ${width}x${height} (dpr=${dpr.toFixed(2)})`);
+    };
+    const schedule = () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(doResize);
+      }
+    };
+
+    // The host element can change size without the window resizing (embedded panels, split views)
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(schedule);
+      observer.observe(host);
+      this.cleanups.push(() => observer.disconnect());
+    }
+    // Still needed for the safe-area insets and for hosts without ResizeObserver support
+    window.addEventListener('resize', schedule, { passive: true });
+    window.addEventListener('orientationchange', schedule, { passive: true });
+    // Some mobile browsers fire on DPR change without resize
+    const dprQuery = matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    dprQuery.addEventListener?.('change', schedule);
+    this.cleanups.push(() => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener('resize', schedule);
+      window.removeEventListener('orientationchange', schedule);
+      dprQuery.removeEventListener?.('change', schedule);
+    });
+
+    // Initial
+    doResize();
+  }
+
+  private async startLoading(): Promise<void> {
+    const runtime = this.options.runtimeConfig ?? {};
+    const loadingScene = new LoadingScene({
+      manifestPath: runtime.manifestPath ?? this.options.manifestPath ?? 'res/manifest/manifest.json',
+      basePath: runtime.basePath ?? this.options.basePath ?? 'res/',
+      viewJsonPath: runtime.viewJsonPath ?? this.options.viewJsonPath ?? 'res/viewJsons/gameView.json',
+      bundles: runtime.bundles ?? this.options.bundles,
+      loaderOptions: this.options.loaderOptions,
+      loadingBarOptions: { ...DEFAULT_LOADING_BAR, ...this.options.loadingBarOptions, ...runtime.loadingBar },
+      onComplete: (loadedAssets: Record<string, any>) => {
+        logger.debug('Loading complete! Processing assets:', loadedAssets);
+        if (this.destroyed) return;
+        // Boot bundles stay loaded for the whole session
+        this.bundleManager = new BundleManager(loadingScene.getLoadingManager());
+        Globals.bundleManager = this.bundleManager;
+        this.bundleManager.retainLoaded(this);
+        this.app.stage.removeChild(loadingScene);
+        loadingScene.destroy({ children: true, texture: true, baseTexture: true });
+        this.loadingScene = null;
+
+        logger.debug("Assets after loading:", Globals.assets.keys());
+      }
+    });
+    this.loadingScene = loadingScene;
+
+    this.app.stage.addChild(loadingScene);
+    logger.info("Loading scene added to stage");
+
+    logger.info("Starting loading process...");
+    await loadingScene.start(this.app.screen.width, this.app.screen.height);
+    logger.info("Loading process finished");
+  }
+
+  private async startFirstScene(): Promise<void> {
+    const { firstScene } = this.options;
+    if (firstScene.prototype instanceof Scene) {
+      await this.sceneManager.startScene(firstScene as SceneClass);
+    } else {
+      await this.sceneManager.start((firstScene as () => Scene)());
+    }
+    logger.info("First scene started via SceneManager");
+    // Ensure scene applies current screen metrics immediately on first load
+    this.sceneManager.resize();
+  }
+}
+
+/**
+ * Mount a game into an element. Nothing runs until this is called, and the
+ * returned handle can pause, resume and destroy it.
+ */
+export const createGame = (options: CreateGameOptions): Game => {
+  return new Game(options);
+};
@@ -1,21 +1,30 @@
 import { Application } from "pixi.js";
 import { SceneManager } from "./scenemanager";
-import { Howl } from "howler";
 import { isMobile } from "pixi.js";
 import { MyEmitter } from "./myemitter";
+import { SoundManager } from "./soundmanager";
+import BundleManager from "./loaders/BundleManager";
+import AssetRegistry from "./loaders/AssetRegistry";
+import { FocusManager } from "./focusmanager";
+import { AccessibilityLayer } from "./accessibility";
 
 export interface globalDataType {
-  resources: any;
+  /** Every loaded texture, spritesheet, font, JSON file and sound */
+  assets: AssetRegistry;
   emitter: MyEmitter | undefined;
   sceneManager: SceneManager | undefined;
   isMobile: boolean;
   // fpsStats: Stats | undefined;
   app: Application | undefined;
-  soundResources: { [key: string]: Howl };
+  soundManager: SoundManager | undefined;
+  bundleManager: BundleManager | undefined;
+  focusManager: FocusManager | undefined;
+  /** Screen-reader mirror of the UI and live announcements */
+  accessibility: AccessibilityLayer | undefined;
 }
 
 export const Globals: globalDataType = {
-  resources: {},
+  assets: new AssetRegistry(),
   emitter: undefined,
   sceneManager : undefined,
   get isMobile() {
@@ -24,5 +33,8 @@ export const Globals: globalDataType = {
   },
   // fpsStats: undefined,
   app: undefined,
-  soundResources: {},
+  soundManager: undefined,
+  bundleManager: undefined,
+  focusManager: undefined,
+  accessibility: undefined,
 };
@@ -0,0 +1,173 @@
+import { Container, Point } from "pixi.js";
+import { config, DesignTransform, getDesignTransform } from "./appconfig";
+import { BaseControl } from "./button";
+import { Globals } from "./globals";
+import { clamp } from "./utilities";
+
+export type LayoutAlign =
+    | "top-left" | "top" | "top-right"
+    | "left" | "center" | "right"
+    | "bottom-left" | "bottom" | "bottom-right";
+
+/**
+ * "screen" is the whole canvas, "safe" the canvas minus the safe-area insets
+ * (where HUD buttons belong on notched phones), "design" the logicalWidth x
+ * logicalHeight area mainContainer is scaled into.
+ */
+export type LayoutSpace = "screen" | "safe" | "design";
+
+/** Size in design pixels, or a percentage of the reference area */
+export type LayoutSize = number | `${number}%`;
+
+export interface LayoutMargin {
+    left?: number;
+    right?: number;
+    top?: number;
+    bottom?: number;
+}
+
+export interface LayoutOptions {
+    /** Edge or corner of the reference area to pin to (default "center") */
+    align?: LayoutAlign;
+    relativeTo?: LayoutSpace;
+    /** Distance from the pinned edges, in design pixels */
+    margin?: number | LayoutMargin;
+    /** Only one of width/height keeps the aspect ratio */
+    width?: LayoutSize;
+    height?: LayoutSize;
+    /** Scale with the screen like mainContainer does (default), or keep a fixed pixel size */
+    scaleWithScreen?: boolean;
+    minScale?: number;
+    maxScale?: number;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const toMargin = (margin: LayoutOptions["margin"]): Required<LayoutMargin> => {
+    if (typeof margin === "number") return { left: margin, right: margin, top: margin, bottom: margin };
+    return { left: 0, right: 0, top: 0, bottom: 0, ...margin };
+};
+
+const resolveSize = (size: LayoutSize, reference: number, uiScale: number): number => {
+    if (typeof size === "number") return size * uiScale;
+    return (parseFloat(size) / 100) * reference;
+};
+
+/**
+ * Screen rectangle (in stage coordinates) of a layout space
+ */
+export const getLayoutArea = (space: LayoutSpace, design: DesignTransform = getDesignTransform()): Rect => {
+    if (space === "design") {
+        return { x: design.x, y: design.y, width: design.width, height: design.height };
+    }
+    const width = Globals.app?.screen.width ?? config.screenWidth;
+    const height = Globals.app?.screen.height ?? config.screenHeight;
+    if (space === "safe") {
+        const { top, right, bottom, left } = config.safeArea;
+        return { x: left, y: top, width: Math.max(0, width - left - right), height: Math.max(0, height - top - bottom) };
+    }
+    return { x: 0, y: 0, width, height };
+};
+
+/**
+ * Position, size and scale `target` inside its parent according to `options`.
+ * Works in any parent, scaled or not; objects without a parent are skipped.
+ * @param design - Design area placement, defaults to the one for config.scaleMode
+ */
+export const applyLayout = (target: Container, options: LayoutOptions, design: DesignTransform = getDesignTransform()) => {
+    const parent = target.parent;
+    if (!parent || target.destroyed) return;
+
+    const area = getLayoutArea(options.relativeTo ?? "screen", design);
+    const align = options.align ?? "center";
+    const uiScale = clamp(
+        options.scaleWithScreen === false ? 1 : Math.min(design.scaleX, design.scaleY),
+        options.minScale ?? 0,
+        options.maxScale ?? Infinity
+    );
+
+    // Convert the reference area into the parent's coordinates
+    const topLeft = parent.toLocal(new Point(area.x, area.y));
+    const bottomRight = parent.toLocal(new Point(area.x + area.width, area.y + area.height));
+    const parentScaleX = area.width > 0 ? (bottomRight.x - topLeft.x) / area.width : 1;
+    const parentScaleY = area.height > 0 ? (bottomRight.y - topLeft.y) / area.height : 1;
+
+    // Size / scale, in screen pixels first
+    let scaleX = uiScale * parentScaleX;
+    let scaleY = uiScale * parentScaleY;
+    if (options.width !== undefined || options.height !== undefined) {
+        const bounds = target.getLocalBounds();
+        if (options.width !== undefined && bounds.width > 0) {
+            scaleX = (resolveSize(options.width, area.width, uiScale) / bounds.width) * parentScaleX;
+        }
+        if (options.height !== undefined && bounds.height > 0) {
+            scaleY = (resolveSize(options.height, area.height, uiScale) / bounds.height) * parentScaleY;
+        }
+        if (options.width === undefined) scaleX = (scaleY / parentScaleY) * parentScaleX;
+        if (options.height === undefined) scaleY = (scaleX / parentScaleX) * parentScaleY;
+    }
+    // Buttons tween their own scale on hover and press, so they take it as their resting scale
+    if (target instanceof BaseControl) target.setBaseScale(scaleX, scaleY);
+    else target.scale.set(scaleX, scaleY);
+
+    const margin = toMargin(options.margin);
+    const left = topLeft.x + margin.left * uiScale * parentScaleX;
+    const right = bottomRight.x - margin.right * uiScale * parentScaleX;
+    const top = topLeft.y + margin.top * uiScale * parentScaleY;
+    const bottom = bottomRight.y - margin.bottom * uiScale * parentScaleY;
+
+    // Align the object's bounds, not its origin, so any sprite anchor works
+    const bounds = target.getLocalBounds();
+    const boundsLeft = bounds.x * scaleX;
+    const boundsRight = (bounds.x + bounds.width) * scaleX;
+    const boundsTop = bounds.y * scaleY;
+    const boundsBottom = (bounds.y + bounds.height) * scaleY;
+
+    if (align.endsWith("left")) target.x = left - boundsLeft;
+    else if (align.endsWith("right")) target.x = right - boundsRight;
+    else target.x = (left + right) / 2 - (boundsLeft + boundsRight) / 2;
+
+    if (align.startsWith("top")) target.y = top - boundsTop;
+    else if (align.startsWith("bottom")) target.y = bottom - boundsBottom;
+    else target.y = (top + bottom) / 2 - (boundsTop + boundsBottom) / 2;
+};
+
+/**
+ * Set of laid-out objects that are re-laid-out together, e.g. on resize
+ */
+export class LayoutGroup {
+
+    private items = new Map<Container, LayoutOptions>();
+
+    /**
+     * @param getDesign - Placement of the design area the group lays out against
+     */
+    constructor(private getDesign: () => DesignTransform = () => getDesignTransform()) { }
+
+    add(target: Container, options: LayoutOptions): Container {
+        this.items.set(target, options);
+        applyLayout(target, options, this.getDesign());
+        return target;
+    }
+
+    remove(target: Container) {
+        this.items.delete(target);
+    }
+
+    update() {
+        const design = this.getDesign();
+        this.items.forEach((options, target) => {
+            if (target.destroyed) this.items.delete(target);
+            else applyLayout(target, options, design);
+        });
+    }
+
+    clear() {
+        this.items.clear();
+    }
+}
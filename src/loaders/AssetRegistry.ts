@@ -0,0 +1,237 @@
+import { Assets, BitmapFont, Spritesheet, Texture, VideoSource } from 'pixi.js';
+import { Howl } from 'howler';
+import { SoundSprite } from '../soundsprite';
+import { logger } from '../utils/logger';
+
+export type AssetKind = 'texture' | 'video' | 'spritesheet' | 'bitmapFont' | 'json' | 'sound' | 'soundSprite';
+
+interface AssetEntry {
+  key: string;
+  kind: AssetKind;
+  asset: unknown;
+  /** Holders of this asset; it is unloaded when the count drops to zero */
+  refs: number;
+  bundle?: string;
+  /** Key of the asset this entry was derived from (spritesheet frames) */
+  parent?: string;
+}
+
+export class AssetNotFoundError extends Error {
+  constructor(public readonly key: string, public readonly kind: AssetKind, available: string[]) {
+    const hint = available.length > 0 ? ` Loaded ${kind} keys: ${available.slice(0, 20).join(', ')}${available.length > 20 ? ', ...' : ''}` : ` No ${kind} assets are loaded.`;
+    super(`${kind} "${key}" is not loaded.${hint}`);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+export class AssetTypeError extends Error {
+  constructor(public readonly key: string, public readonly expected: AssetKind, public readonly actual: AssetKind) {
+    super(`Asset "${key}" is a ${actual}, not a ${expected}`);
+    this.name = 'AssetTypeError';
+  }
+}
+
+/**
+ * Typed store for every loaded asset. Getters throw descriptive errors for
+ * missing keys, and assets are reference-counted so whoever loaded them can
+ * release them again.
+ */
+export default class AssetRegistry {
+  private entries = new Map<string, AssetEntry>();
+
+  /**
+   * Register a loaded asset with one reference. Registering the same asset
+   * again adds a reference. Spritesheet frames are registered as textures.
+   * @returns the detected kind, or null if the asset type is not supported
+   */
+  public add(key: string, asset: unknown, bundle?: string): AssetKind | null {
+    const existing = this.entries.get(key);
+    if (existing && existing.asset === asset) {
+      existing.refs++;
+      return existing.kind;
+    }
+
+    const kind = AssetRegistry.detectKind(asset);
+    if (!kind) {
+      logger.warn(`AssetRegistry: unsupported asset type for key ${key}: ${String(asset)}`);
+      return null;
+    }
+    if (existing) {
+      logger.warn(`AssetRegistry: replacing ${existing.kind} "${key}" with a ${kind}`);
+      this.remove(existing);
+    }
+
+    this.entries.set(key, { key, kind, asset, refs: 1, bundle });
+    if (asset instanceof Spritesheet) {
+      for (const frame of Object.keys(asset.textures)) {
+        if (this.entries.has(frame)) continue;
+        this.entries.set(frame, { key: frame, kind: 'texture', asset: asset.textures[frame], refs: 0, bundle, parent: key });
+      }
+    }
+    logger.info(`Stored ${kind}: ${key}`);
+    return kind;
+  }
+
+  /**
+   * Load an asset through Pixi Assets (by alias, or from `src`) and hold a
+   * reference to it. Pair every call with release().
+   */
+  public async load<T = unknown>(key: string, src?: string): Promise<T> {
+    const asset = src ? await Assets.load<T>({ alias: key, src }) : await Assets.load<T>(key);
+    if (!this.add(key, asset)) {
+      throw new Error(`Asset "${key}" loaded but its type is not supported by the registry`);
+    }
+    return asset;
+  }
+
+  public retain(key: string): void {
+    this.getEntry(key).refs++;
+  }
+
+  /**
+   * Drop one reference; the asset is unloaded once nothing holds it anymore
+   */
+  public release(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry || entry.parent) return;
+    entry.refs--;
+    if (entry.refs <= 0) {
+      this.remove(entry);
+      this.unload(entry);
+    }
+  }
+
+  /**
+   * Drop the reference a bundle holds on each of its assets
+   */
+  public releaseBundle(bundle: string): string[] {
+    const keys = Array.from(this.entries.values())
+      .filter((entry) => entry.bundle === bundle && !entry.parent)
+      .map((entry) => entry.key);
+    keys.forEach((key) => this.release(key));
+    return keys;
+  }
+
+  /**
+   * Unload every asset regardless of its references, e.g. when the game is destroyed
+   */
+  public clear(): void {
+    const entries = Array.from(this.entries.values()).filter((entry) => !entry.parent);
+    this.entries.clear();
+    entries.forEach((entry) => this.unload(entry));
+  }
+
+  public has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  public getKind(key: string): AssetKind | undefined {
+    return this.entries.get(key)?.kind;
+  }
+
+  public keys(kind?: AssetKind): string[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => !kind || entry.kind === kind)
+      .map((entry) => entry.key);
+  }
+
+  public getRefCount(key: string): number {
+    return this.entries.get(key)?.refs ?? 0;
+  }
+
+  public getTexture(key: string): Texture {
+    return this.get<Texture>(key, 'texture');
+  }
+
+  /**
+   * Video textures; play/pause through `texture.source.resource`
+   */
+  public getVideo(key: string): Texture {
+    return this.get<Texture>(key, 'video');
+  }
+
+  public getSpritesheet(key: string): Spritesheet {
+    return this.get<Spritesheet>(key, 'spritesheet');
+  }
+
+  /**
+   * Frames of a spritesheet animation. Without a sheet key, every loaded
+   * spritesheet is searched.
+   */
+  public getAnimation(name: string, sheetKey?: string): Texture[] {
+    const sheets = sheetKey ? [this.getSpritesheet(sheetKey)] : this.keys('spritesheet').map((key) => this.getSpritesheet(key));
+    for (const sheet of sheets) {
+      const frames = sheet.animations[name];
+      if (frames) return frames;
+    }
+    const available = sheets.flatMap((sheet) => Object.keys(sheet.animations));
+    throw new Error(`Animation "${name}" not found${sheetKey ? ` in spritesheet "${sheetKey}"` : ''}. Available animations: ${available.join(', ') || 'none'}`);
+  }
+
+  public getBitmapFont(key: string): BitmapFont {
+    return this.get<BitmapFont>(key, 'bitmapFont');
+  }
+
+  public getJson<T = unknown>(key: string): T {
+    return this.get<T>(key, 'json');
+  }
+
+  public getSound(key: string): Howl {
+    return this.get<Howl>(key, 'sound');
+  }
+
+  public getSoundSprite(key: string): SoundSprite {
+    return this.get<SoundSprite>(key, 'soundSprite');
+  }
+
+  private get<T>(key: string, kind: AssetKind): T {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      throw new AssetNotFoundError(key, kind, this.keys(kind));
+    }
+    if (entry.kind !== kind) {
+      throw new AssetTypeError(key, kind, entry.kind);
+    }
+    return entry.asset as T;
+  }
+
+  private getEntry(key: string): AssetEntry {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      throw new Error(`Asset "${key}" is not loaded`);
+    }
+    return entry;
+  }
+
+  private remove(entry: AssetEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.forEach((child, key) => {
+      if (child.parent === entry.key) this.entries.delete(key);
+    });
+  }
+
+  private unload(entry: AssetEntry): void {
+    logger.info(`AssetRegistry: unloading ${entry.kind} ${entry.key}`);
+    switch (entry.kind) {
+      case 'sound':
+        (entry.asset as Howl).unload();
+        break;
+      case 'soundSprite':
+        // Segments share the sprite's Howl, which is unloaded through its own entry
+        break;
+      default:
+        Assets.unload(entry.key).catch((error) => logger.warn(`AssetRegistry: failed to unload ${entry.key}`, error));
+        break;
+    }
+  }
+
+  private static detectKind(asset: unknown): AssetKind | null {
+    if (asset instanceof Texture) return asset.source instanceof VideoSource ? 'video' : 'texture';
+    if (asset instanceof Spritesheet) return 'spritesheet';
+    if (asset instanceof BitmapFont) return 'bitmapFont';
+    if (asset instanceof Howl) return 'sound';
+    if (asset instanceof SoundSprite) return 'soundSprite';
+    if (asset !== null && typeof asset === 'object') return 'json';
+    return null;
+  }
+}
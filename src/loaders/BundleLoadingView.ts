@@ -0,0 +1,46 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import LoadingBar, { LoadingBarOptions } from '../ui/LoadingBar';
+import { LoadingProgress } from './LoadingManager';
+
+/**
+ * Progress overlay SceneManager shows while a scene's bundles load on demand.
+ */
+export default class BundleLoadingView extends Container {
+  private dim: Graphics;
+  private loadingBar: LoadingBar;
+  private statusText: Text;
+
+  constructor(bundles: string[], loadingBarOptions: LoadingBarOptions = {}) {
+    super();
+
+    this.dim = new Graphics();
+    this.addChild(this.dim);
+
+    this.loadingBar = new LoadingBar({ width: 400, height: 40, ...loadingBarOptions });
+    this.addChild(this.loadingBar);
+
+    const textStyle = new TextStyle({
+      fontFamily: 'Arial',
+      fontSize: 16,
+      fill: 0xFFFFFF,
+    });
+    this.statusText = new Text({ text: `Loading ${bundles.join(', ')}...`, style: textStyle, resolution: window.devicePixelRatio || 1 });
+    this.statusText.anchor.set(0.5, 0);
+    this.addChild(this.statusText);
+
+    // Swallow input to the scenes underneath while loading
+    this.eventMode = 'static';
+  }
+
+  public updateProgress(progress: LoadingProgress): void {
+    this.loadingBar.updateProgress(progress.progress);
+  }
+
+  public resize(width: number, height: number): void {
+    this.dim.clear();
+    this.dim.rect(0, 0, width, height);
+    this.dim.fill({ color: 0x000000, alpha: 0.6 });
+    this.loadingBar.position.set(width / 2, height / 2);
+    this.statusText.position.set(width / 2, height / 2 + 30);
+  }
+}
@@ -0,0 +1,101 @@
+import LoadingManager, { AssetLoadError, LoadingProgress } from './LoadingManager';
+import { Globals } from '../globals';
+import { logger } from '../utils/logger';
+
+/**
+ * Tracks which owners (usually live scenes) hold each manifest bundle. Bundles
+ * are loaded on first acquire and unloaded once the last owner releases them.
+ */
+export default class BundleManager {
+  private owners = new Map<string, Set<object>>();
+  private loading = new Map<string, Promise<void>>();
+
+  constructor(private loadingManager: LoadingManager) {}
+
+  /**
+   * Take ownership of every bundle the loading manager has already loaded,
+   * e.g. the bundles loaded by LoadingScene at boot.
+   */
+  public retainLoaded(owner: object): void {
+    for (const name of this.loadingManager.getBundleNames()) {
+      const assets = this.loadingManager.getBundleAssets(name);
+      if (!assets) continue;
+      this.storeAssets(name, assets);
+      this.addOwner(name, owner);
+    }
+  }
+
+  /**
+   * Whether acquiring these bundles would need a network load
+   */
+  public needsLoading(bundles: string[]): boolean {
+    return bundles.some((name) => !this.loadingManager.isBundleLoaded(name));
+  }
+
+  /**
+   * Load the bundles if needed and register the owner for them.
+   * Rejects with an AssetLoadError if a required asset fails to load.
+   */
+  public async acquire(owner: object, bundles: string[], onProgress?: (progress: LoadingProgress) => void): Promise<void> {
+    const missing = bundles.filter((name) => !this.loadingManager.isBundleLoaded(name));
+    for (let i = 0; i < missing.length; i++) {
+      await this.loadOnce(missing[i], (progress) => {
+        onProgress?.({ progress: (i + progress.progress) / missing.length, loaded: progress.loaded, total: progress.total });
+      });
+    }
+    bundles.forEach((name) => this.addOwner(name, owner));
+    onProgress?.({ progress: 1, loaded: bundles.length, total: bundles.length });
+  }
+
+  /**
+   * Drop the owner from all bundles, unloading those nobody holds anymore
+   */
+  public release(owner: object): void {
+    const unused: string[] = [];
+    this.owners.forEach((set, name) => {
+      if (set.delete(owner) && set.size === 0) unused.push(name);
+    });
+
+    for (const name of unused) {
+      this.owners.delete(name);
+      // The registry unloads whatever no scene retained on its own
+      const keys = Globals.assets.releaseBundle(name);
+      this.loadingManager.forgetBundle(name);
+      logger.info(`BundleManager: released bundle ${name} (${keys.length} assets)`);
+    }
+  }
+
+  public getOwnerCount(bundle: string): number {
+    return this.owners.get(bundle)?.size ?? 0;
+  }
+
+  private loadOnce(name: string, onProgress: (progress: LoadingProgress) => void): Promise<void> {
+    let pending = this.loading.get(name);
+    if (!pending) {
+      pending = this.loadingManager.loadBundle(name, onProgress)
+        .then(({ assets, report }) => {
+          if (!report.ok) throw new AssetLoadError(report);
+          this.storeAssets(name, assets);
+        })
+        .finally(() => this.loading.delete(name));
+      this.loading.set(name, pending);
+    }
+    return pending;
+  }
+
+  private addOwner(bundle: string, owner: object): void {
+    if (!this.owners.has(bundle)) this.owners.set(bundle, new Set());
+    this.owners.get(bundle)!.add(owner);
+  }
+
+  private storeAssets(bundle: string, assets: Record<string, any>): void {
+    if (!assets || Object.keys(assets).length === 0) {
+        logger.warn(`No assets returned from loading bundle ${bundle}.`);
+        return;
+    }
+
+    for (const key of Object.keys(assets)) {
+        Globals.assets.add(key, assets[key], bundle);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Assets } from 'pixi.js';
 import { Howl } from 'howler';
 import { logger } from '../utils/logger';
+import { SoundSprite } from '../soundsprite';
 
 export interface AssetManifest {
   bundles: Array<{
@@ -16,29 +17,146 @@ export interface AssetManifest {
 }
 
 export interface LoadingProgress {
+  /** Overall progress (0-1), weighted by asset size */
   progress: number;
   loaded: number;
   total: number;
+  /** Bytes loaded so far, counting each asset's declared or measured size */
+  loadedBytes?: number;
+  totalBytes?: number;
+}
+
+export interface AssetLoadProgress {
+  name: string;
+  bundle: string;
+  /** Progress of this asset (0-1) */
+  progress: number;
+  /** Size used to weight this asset in the overall progress */
+  bytes: number;
+}
+
+export interface LoadingManagerOptions {
+  /** Maximum number of assets loading at the same time */
+  concurrency?: number;
+  /**
+   * Issue HEAD requests for assets without a declared `size` tag and use
+   * their Content-Length as progress weight
+   */
+  measureSizes?: boolean;
+  /** Give up on an attempt after this long */
+  timeoutMs?: number;
+  /** Extra attempts after the first failure */
+  retries?: number;
+  /** Delay before the first retry; doubles with every further attempt */
+  retryDelayMs?: number;
+}
+
+export interface FailedAsset {
+  name: string;
+  bundle: string;
+  src: string;
+  reason: string;
+  attempts: number;
+  /** False for assets tagged `optional` in the manifest */
+  required: boolean;
+}
+
+/**
+ * Outcome of a load call. Optional assets may fail without making it fail.
+ */
+export interface LoadReport {
+  loaded: string[];
+  failed: FailedAsset[];
+  /** True when no required asset failed */
+  ok: boolean;
+}
+
+export interface LoadResult {
+  assets: Record<string, any>;
+  report: LoadReport;
+}
+
+/**
+ * Thrown by callers that cannot continue without the required assets
+ */
+export class AssetLoadError extends Error {
+  constructor(public readonly report: LoadReport) {
+    const required = report.failed.filter((f) => f.required);
+    super(`Failed to load ${required.length} required asset(s): ${required.map((f) => `${f.name} (${f.reason})`).join(', ')}`);
+    this.name = 'AssetLoadError';
+  }
+}
+
+/** Weight for assets whose size is neither declared nor measurable */
+const FALLBACK_ASSET_BYTES = 100 * 1024;
+
+/** JSON written by the pipeline's audiosprite step (howler or howler2 format) */
+interface AudioSpriteData {
+  urls?: string[];
+  src?: string[];
+  sprite: Record<string, [number, number] | [number, number, boolean]>;
 }
 
 interface DetailedAssetInfo {
   name: string;
   srcPath: string;
+  bundle: string;
   isSound: boolean;
+  isAudioSprite: boolean;
+  required: boolean;
+  /** Declared (manifest `size` tag) or measured size in bytes */
+  size?: number;
+}
+
+/** One try at loading an asset, so a timeout can stop what it is waiting on */
+interface LoadAttempt {
+  /** Set when the attempt timed out; later steps check it before starting more work */
+  abandoned: boolean;
+  /** Cancels the request currently in flight */
+  abandon?: () => void;
 }
 
 export default class LoadingManager {
   private manifest: AssetManifest | null = null;
-  private detailedAssetInfo: DetailedAssetInfo[] = [];
+  private bundleAssetInfo = new Map<string, DetailedAssetInfo[]>();
+  /** Assets loaded so far per bundle, including bundles that are only partially loaded */
+  private bundleAssets = new Map<string, Record<string, any>>();
+  private completeBundles = new Set<string>();
+  private loadedInfos = new Set<DetailedAssetInfo>();
   private assetsBasePath: string = '';
   private onProgressCallback: ((progress: LoadingProgress) => void) | null = null;
+  private onAssetProgressCallback: ((progress: AssetLoadProgress) => void) | null = null;
+  private concurrency: number;
+  private measureSizes: boolean;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
   
-  constructor() {}
+  constructor(options: LoadingManagerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.measureSizes = options.measureSizes ?? false;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.retries = Math.max(0, options.retries ?? 2);
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+  }
   
   public onProgress(callback: (progress: LoadingProgress) => void): this {
     this.onProgressCallback = callback;
     return this;
   }
+
+  /**
+   * Receive progress for each individual asset
+   */
+  public onAssetProgress(callback: (progress: AssetLoadProgress) => void): this {
+    this.onAssetProgressCallback = callback;
+    return this;
+  }
+
+  public setConcurrency(concurrency: number): this {
+    this.concurrency = Math.max(1, concurrency);
+    return this;
+  }
   
   public async loadManifest(manifestPath: string = './assets/manifest.json'): Promise<AssetManifest> {
     try {
@@ -82,94 +200,323 @@ export default class LoadingManager {
         basePath: this.assetsBasePath
       });
       
-      this.detailedAssetInfo = [];
-      if (this.manifest.bundles.length > 0 && this.manifest.bundles[0].assets) {
-        const bundle = this.manifest.bundles[0];
-        
-        this.detailedAssetInfo = bundle.assets.map(assetEntry => {
+      this.bundleAssetInfo.clear();
+      for (const bundle of this.manifest.bundles) {
+        this.bundleAssetInfo.set(bundle.name, (bundle.assets ?? []).map(assetEntry => {
           const name = assetEntry.alias[assetEntry.alias.length - 1]; 
           const srcPath = assetEntry.src[0];
           
           const isSound = /\.(mp3|wav|ogg|m4a)$/i.test(srcPath);
+          const isAudioSprite = assetEntry.data?.tags?.audioSprite === true;
+          const declaredSize = assetEntry.data?.tags?.size;
+          const size = typeof declaredSize === 'number' && declaredSize > 0 ? declaredSize : undefined;
+          const required = assetEntry.data?.tags?.optional !== true;
           
-          return { name, srcPath, isSound };
-        });
-      } else {
+          return { name, srcPath, bundle: bundle.name, isSound, isAudioSprite, required, size };
+        }));
+      }
+      if (this.bundleAssetInfo.size === 0) {
         logger.warn('No bundles or assets found in manifest to prepare detailed info.');
       }
       
-      logger.info('Prepared detailed asset info');
+      logger.info(`Prepared detailed asset info for bundles: ${this.getBundleNames().join(', ')}`);
     } catch (error) {
       logger.error('Error initializing assets or preparing detailed info: ' + String(error));
       throw error;
     }
   }
+
+  public getBundleNames(): string[] {
+    return Array.from(this.bundleAssetInfo.keys());
+  }
+
+  /**
+   * A bundle counts as loaded once all of its required assets are
+   */
+  public isBundleLoaded(name: string): boolean {
+    return this.completeBundles.has(name);
+  }
+
+  /**
+   * Assets of a loaded bundle, keyed like the map returned by loadBundles()
+   */
+  public getBundleAssets(name: string): Record<string, any> | undefined {
+    return this.completeBundles.has(name) ? this.bundleAssets.get(name) : undefined;
+  }
   
-  public async loadAll(): Promise<Record<string, any>> {
-    if (this.detailedAssetInfo.length === 0) {
-      console.warn('No assets to load. Make sure to call init() first and manifest has assets.');
-      return {};
+  /**
+   * Load every bundle in the manifest
+   */
+  public async loadAll(): Promise<LoadResult> {
+    return this.loadBundles(this.getBundleNames());
+  }
+
+  public async loadBundle(name: string, onProgress?: (progress: LoadingProgress) => void): Promise<LoadResult> {
+    return this.loadBundles([name], onProgress);
+  }
+
+  /**
+   * Load the given bundles. Assets that already loaded are not fetched again
+   * (so calling this again after a failure only retries what failed), but
+   * they are still included in the returned map.
+   */
+  public async loadBundles(
+    names: string[],
+    onProgress: ((progress: LoadingProgress) => void) | null = this.onProgressCallback
+  ): Promise<LoadResult> {
+    const loadedAssetsMap: Record<string, any> = {};
+    const report: LoadReport = { loaded: [], failed: [], ok: true };
+    const toLoad: DetailedAssetInfo[] = [];
+
+    for (const name of names) {
+      const infos = this.bundleAssetInfo.get(name);
+      if (!infos) {
+        throw new Error(`Unknown bundle "${name}". Make sure to call init() first and the manifest declares it.`);
+      }
+      Object.assign(loadedAssetsMap, this.bundleAssets.get(name));
+      toLoad.push(...infos.filter((info) => !this.loadedInfos.has(info)));
+    }
+
+    if (toLoad.length === 0) {
+      onProgress?.({ progress: 1, loaded: 0, total: 0 });
+      return { assets: loadedAssetsMap, report };
     }
     
-    const total = this.detailedAssetInfo.length;
+    const total = toLoad.length;
     let loaded = 0;
     
-    logger.info(`Starting to load ${total} assets...`);
-    
-    const loadedAssetsMap: Record<string, any> = {};
-    
-    try {
-      for (const assetInfo of this.detailedAssetInfo) {
-        const assetName = assetInfo.name;
-        
-        if (assetInfo.isSound) {
-          const soundUrl = this.assetsBasePath.endsWith('/') ? 
-                           this.assetsBasePath + assetInfo.srcPath : 
-                           this.assetsBasePath + '/' + assetInfo.srcPath;
-
-          logger.info(`Loading sound with Howler: ${assetName} from ${soundUrl}`);
-          const howl = await new Promise<Howl>((resolve, reject) => {
-            const sound = new Howl({
-              src: [soundUrl],
-              preload: true,
-              onload: () => {
-                logger.info(`Howler loaded: ${assetName} (${soundUrl})`);
-                resolve(sound);
-              },
-              onloaderror: ( err) => {
-                logger.error(`Howler onloaderror for ${assetName} (${soundUrl}): ${String(err)}`);
-                reject(new Error(`Howler onloaderror: ${err} for ${soundUrl}`));
-              },
-              onplayerror: ( err) => {
-                logger.error(`Howler onplayerror for ${assetName} (${soundUrl}): ${String(err)}`);
-              }
-            });
-          });
-          loadedAssetsMap[assetName] = howl;
-        } else {
-          logger.info(`Loading asset with PIXI.Assets: ${assetName}`);
-          const pixiAsset = await Assets.load(assetName);
-          loadedAssetsMap[assetName] = pixiAsset;
-        }
+    logger.info(`Starting to load ${total} assets (concurrency ${this.concurrency})...`);
+
+    if (this.measureSizes) {
+      await this.measureAssetSizes(toLoad);
+    }
+    const weights = toLoad.map((info) => info.size ?? FALLBACK_ASSET_BYTES);
+    const totalBytes = weights.reduce((sum, bytes) => sum + bytes, 0);
+    const assetProgress = toLoad.map(() => 0);
+
+    const reportProgress = () => {
+      if (!onProgress) return;
+      const loadedBytes = weights.reduce((sum, bytes, i) => sum + bytes * assetProgress[i], 0);
+      onProgress({ progress: totalBytes > 0 ? loadedBytes / totalBytes : 1, loaded, total, loadedBytes, totalBytes });
+    };
+
+    await this.runConcurrently(toLoad, async (assetInfo, index) => {
+      const updateAsset = (progress: number) => {
+        assetProgress[index] = progress;
+        this.onAssetProgressCallback?.({ name: assetInfo.name, bundle: assetInfo.bundle, progress, bytes: weights[index] });
+        reportProgress();
+      };
+
+      let attempts = 0;
+      try {
+        const result = await this.withRetries(assetInfo, () => {
+          attempts++;
+          const attempt: LoadAttempt = { abandoned: false };
+          return this.withTimeout(this.loadAsset(assetInfo, updateAsset, attempt), attempt);
+        });
+
+        Object.assign(loadedAssetsMap, result);
+        if (!this.bundleAssets.has(assetInfo.bundle)) this.bundleAssets.set(assetInfo.bundle, {});
+        Object.assign(this.bundleAssets.get(assetInfo.bundle)!, result);
+        this.loadedInfos.add(assetInfo);
+        report.loaded.push(assetInfo.name);
         
         loaded++;
-        logger.info(`Loaded asset ${loaded}/${total}: ${assetName} (${assetInfo.isSound ? 'Sound' : 'PixiAsset'})`);
-        
-        if (this.onProgressCallback) {
-          const progress = loaded / total;
-          this.onProgressCallback({ progress, loaded, total });
-        }
+        logger.info(`Loaded asset ${loaded}/${total}: ${assetInfo.name} (${assetInfo.isAudioSprite ? 'AudioSprite' : assetInfo.isSound ? 'Sound' : 'PixiAsset'})`);
+      } catch (error: any) {
+        const reason = error?.message || String(error);
+        report.failed.push({ name: assetInfo.name, bundle: assetInfo.bundle, src: assetInfo.srcPath, reason, attempts, required: assetInfo.required });
+        const log = assetInfo.required ? logger.error : logger.warn;
+        log(`Failed to load ${assetInfo.required ? 'required' : 'optional'} asset ${assetInfo.name} after ${attempts} attempt(s): ${reason}`);
       }
-      
-      logger.info('Loaded all assets');
-      return loadedAssetsMap;
-    } catch (error) {
-      logger.error('Error loading assets during loadAll: ' + String(error));
-      return loadedAssetsMap;
+      // Failed assets count as done so progress still reaches 100%
+      updateAsset(1);
+    });
+
+    report.ok = report.failed.every((failure) => !failure.required);
+    for (const name of names) {
+      const infos = this.bundleAssetInfo.get(name)!;
+      if (infos.every((info) => !info.required || this.loadedInfos.has(info))) {
+        this.completeBundles.add(name);
+      }
+    }
+    
+    if (report.ok) {
+      logger.info(`Loaded bundles: ${names.join(', ')}`);
+    } else {
+      logger.error(`Bundles ${names.join(', ')} are missing ${report.failed.filter((f) => f.required).length} required asset(s)`);
+    }
+    return { assets: loadedAssetsMap, report };
+  }
+
+  private async withRetries<T>(assetInfo: DetailedAssetInfo, attempt: () => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (retry >= this.retries) throw error;
+        const delay = this.retryDelayMs * Math.pow(2, retry);
+        logger.warn(`Retrying ${assetInfo.name} in ${delay}ms (${String(error)})`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Reject if the attempt takes longer than timeoutMs, cancelling its request
+   * where that is possible so a retry starts a fresh one. Pixi requests cannot
+   * be cancelled: a retry joins the pending one, and Pixi refetches once it fails.
+   */
+  private withTimeout<T>(promise: Promise<T>, attempt: LoadAttempt): Promise<T> {
+    if (this.timeoutMs <= 0) return promise;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        attempt.abandoned = true;
+        attempt.abandon?.();
+        reject(new Error(`Timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      promise.then(
+        (value) => { clearTimeout(timer); resolve(value); },
+        (error) => { clearTimeout(timer); reject(error); }
+      );
+    });
+  }
+
+  private async loadAsset(assetInfo: DetailedAssetInfo, onProgress: (progress: number) => void, attempt: LoadAttempt): Promise<Record<string, any>> {
+    const assetName = assetInfo.name;
+    onProgress(0);
+
+    if (assetInfo.isAudioSprite) {
+      return this.loadAudioSprite(assetInfo, attempt);
+    }
+    if (assetInfo.isSound) {
+      const soundUrl = this.resolvePath(assetInfo.srcPath);
+
+      logger.info(`Loading sound with Howler: ${assetName} from ${soundUrl}`);
+      return { [assetName]: await this.loadHowl(assetName, [soundUrl], attempt) };
     }
+
+    logger.info(`Loading asset with PIXI.Assets: ${assetName}`);
+    return { [assetName]: await Assets.load(assetName, onProgress) };
+  }
+
+  /**
+   * Run the worker over all items with at most `concurrency` in flight.
+   * Rejects with the first error once the in-flight items have settled.
+   */
+  private async runConcurrently<T>(items: T[], worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    let next = 0;
+    let failure: unknown = null;
+    const runner = async () => {
+      while (next < items.length && failure === null) {
+        const index = next++;
+        try {
+          await worker(items[index], index);
+        } catch (error) {
+          failure ??= error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, runner));
+    if (failure !== null) throw failure;
+  }
+
+  /**
+   * Fill in missing sizes from the Content-Length of HEAD requests
+   */
+  private async measureAssetSizes(infos: DetailedAssetInfo[]): Promise<void> {
+    const unknown = infos.filter((info) => info.size === undefined);
+    await this.runConcurrently(unknown, async (info) => {
+      try {
+        const response = await fetch(this.resolvePath(info.srcPath), { method: 'HEAD' });
+        const length = Number(response.headers.get('content-length'));
+        if (response.ok && length > 0) info.size = length;
+      } catch (error) {
+        logger.warn(`Could not measure size of ${info.name}: ${String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Forget that a bundle was loaded so the next loadBundles() call fetches it
+   * again. Unloading the assets themselves is up to their holder (see
+   * AssetRegistry).
+   */
+  public forgetBundle(name: string): void {
+    const infos = this.bundleAssetInfo.get(name) ?? [];
+    infos.forEach((info) => this.loadedInfos.delete(info));
+    this.bundleAssets.delete(name);
+    this.completeBundles.delete(name);
+    logger.info(`Forgot bundle: ${name}`);
   }
   
+  /**
+   * Load an audiosprite JSON and build a single Howl from it. Every sprite
+   * segment is returned under its own key, next to the Howl itself.
+   */
+  private async loadAudioSprite(assetInfo: DetailedAssetInfo, attempt: LoadAttempt): Promise<Record<string, Howl | SoundSprite>> {
+    const jsonUrl = new URL(this.resolvePath(assetInfo.srcPath), window.location.href);
+    logger.info(`Loading audiosprite: ${assetInfo.name} from ${jsonUrl.pathname}`);
+
+    const controller = new AbortController();
+    attempt.abandon = () => controller.abort();
+    const response = await fetch(jsonUrl, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load audiosprite ${assetInfo.name}: ${response.status} ${response.statusText}`);
+    }
+    const data = (await response.json()) as AudioSpriteData;
+    const urls = data.urls ?? data.src;
+    if (!urls || urls.length === 0 || !data.sprite) {
+      throw new Error(`Audiosprite ${assetInfo.name} has no audio urls or sprite map`);
+    }
+
+    // Audio paths in the JSON are relative to the JSON file itself
+    const src = urls.map((url) => new URL(url, jsonUrl).href);
+    if (attempt.abandoned) throw new Error(`Audiosprite ${assetInfo.name} was abandoned`);
+    const howl = await this.loadHowl(assetInfo.name, src, attempt, data.sprite);
+
+    const result: Record<string, Howl | SoundSprite> = { [assetInfo.name]: howl };
+    for (const spriteName of Object.keys(data.sprite)) {
+      if (spriteName in result) {
+        logger.warn(`Audiosprite ${assetInfo.name}: segment "${spriteName}" clashes with the sprite name, skipping`);
+        continue;
+      }
+      result[spriteName] = new SoundSprite(howl, spriteName);
+    }
+    logger.info(`Audiosprite ${assetInfo.name} loaded with ${Object.keys(data.sprite).length} segments`);
+    return result;
+  }
+
+  private loadHowl(assetName: string, src: string[], attempt: LoadAttempt, sprite?: AudioSpriteData['sprite']): Promise<Howl> {
+    return new Promise<Howl>((resolve, reject) => {
+      const sound = new Howl({
+        src,
+        sprite,
+        preload: true,
+        onload: () => {
+          logger.info(`Howler loaded: ${assetName} (${src.join(', ')})`);
+          resolve(sound);
+        },
+        onloaderror: ( _id, err) => {
+          logger.error(`Howler onloaderror for ${assetName} (${src.join(', ')}): ${String(err)}`);
+          reject(new Error(`Howler onloaderror: ${err} for ${src.join(', ')}`));
+        },
+        onplayerror: ( _id, err) => {
+          logger.error(`Howler onplayerror for ${assetName} (${src.join(', ')}): ${String(err)}`);
+        }
+      });
+      // Stops the download and frees the Howl; a retry creates a new one
+      attempt.abandon = () => sound.unload();
+    });
+  }
+
+  private resolvePath(srcPath: string): string {
+    return this.assetsBasePath.endsWith('/') ? 
+           this.assetsBasePath + srcPath : 
+           this.assetsBasePath + '/' + srcPath;
+  }
+
   public getAssetNames(): string[] {
-    return this.detailedAssetInfo.map(info => info.name);
+    return Array.from(this.bundleAssetInfo.values()).flat().map(info => info.name);
   }
 } 
\ No newline at end of file
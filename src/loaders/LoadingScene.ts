@@ -1,20 +1,24 @@
 import { Container, Text, TextStyle } from 'pixi.js';
-import LoadingManager, { LoadingProgress } from './LoadingManager';
-import LoadingBar from '../ui/LoadingBar';
+import LoadingManager, { LoadingManagerOptions, LoadingProgress, LoadReport, LoadResult } from './LoadingManager';
+import { UIGraphicButton } from '../button';
+import LoadingBar, { LoadingBarOptions } from '../ui/LoadingBar';
 import { Tween, Group } from 'tweedle.js';
 import { logger } from '../utils/logger';
+import { loadViews } from '../viewbuilder';
+import { Globals } from '../globals';
 
 export interface LoadingSceneOptions {
   manifestPath?: string;
   basePath?: string;
-  loadingBarOptions?: {
-    width?: number;
-    height?: number;
-    backgroundColor?: number;
-    fillColor?: number;
-    textColor?: number;
-  };
-  onComplete?: (assets: Record<string, any>) => void;
+  /** Bundles to load up front; defaults to every bundle in the manifest */
+  bundles?: string[];
+  /** Merged view JSON for ViewBuilder, loaded after the boot bundles */
+  viewJsonPath?: string;
+  /** Concurrency and size measuring for the asset loader */
+  loaderOptions?: LoadingManagerOptions;
+  loadingBarOptions?: LoadingBarOptions;
+  /** Called once every required asset has loaded; the report lists failed optional assets */
+  onComplete?: (assets: Record<string, any>, report: LoadReport) => void;
 }
 
 export default class LoadingScene extends Container {
@@ -24,6 +28,11 @@ export default class LoadingScene extends Container {
   private assets: Record<string, any> = {};
   private options: LoadingSceneOptions;
   private isLoading: boolean = false;
+  private retryButton: UIGraphicButton;
+  private onRetry?: () => void;
+  /** Rejects the pending waitForRetry() */
+  private cancelRetry?: (error: Error) => void;
+  private report: LoadReport = { loaded: [], failed: [], ok: true };
   
   constructor(options: LoadingSceneOptions = {}) {
     super();
@@ -33,7 +42,7 @@ export default class LoadingScene extends Container {
     logger.info('LoadingScene: Creating loading scene');
     
     // Create loading manager
-    this.loadingManager = new LoadingManager();
+    this.loadingManager = new LoadingManager(options.loaderOptions);
     this.loadingManager.onProgress(this.handleProgress.bind(this));
     
     // Create loading bar
@@ -50,6 +59,24 @@ export default class LoadingScene extends Container {
     this.statusText = new Text({ text: 'Initializing...', style: textStyle, resolution: window.devicePixelRatio || 1 });
     this.statusText.anchor.set(0.5, 0);
     this.addChild(this.statusText);
+
+    // Shown when required assets fail; reloads only what failed
+    this.retryButton = new UIGraphicButton({
+      style: {
+        width: 160,
+        height: 44,
+        radius: 10,
+        fillNormal: options.loadingBarOptions?.fillColor ?? 0x00aaff,
+        stroke: 0xffffff,
+        strokeWidth: 1
+      },
+      labelText: 'Retry',
+      accessibleDescription: 'Load the failed assets again',
+      callbacksOnly: true,
+      onClick: () => this.onRetry?.(),
+    });
+    this.retryButton.visible = false;
+    this.addChild(this.retryButton);
     
     // Center the loading bar
     this.positionLoadingBar();
@@ -65,6 +92,14 @@ export default class LoadingScene extends Container {
     // We'll update this in the start method once we have access to the stage
     this.loadingBar.position.set(0, 0);
     this.statusText.position.set(0, 40);
+    this.positionRetryButton();
+  }
+
+  /**
+   * Keep the retry button below the (possibly multi-line) status text
+   */
+  private positionRetryButton(): void {
+    this.retryButton.position.set(this.statusText.x, this.statusText.y + this.statusText.height + 40);
   }
   
   /**
@@ -88,8 +123,7 @@ export default class LoadingScene extends Container {
     this.isLoading = true;
     
     // Center the loading bar now that we have dimensions
-    this.loadingBar.position.set(width / 2, height / 2);
-    this.statusText.position.set(width / 2, height / 2 + 30);
+    this.resize(width, height);
     
     try {
       this.statusText.text = 'Loading manifest...';
@@ -105,16 +139,31 @@ export default class LoadingScene extends Container {
       await this.loadingManager.init(this.options.basePath);
       
       this.statusText.text = 'Loading assets...';
-      logger.info('LoadingScene: Loading all assets');
       
-      // Load all assets
-      this.assets = await this.loadingManager.loadAll();
+      let result = await this.loadBootBundles();
+      while (!result.report.ok) {
+        // Required assets are missing: the game cannot start, so let the player retry
+        await this.waitForRetry(result.report);
+        this.statusText.text = 'Retrying...';
+        result = await this.loadBootBundles();
+      }
+      this.assets = result.assets;
+      this.report = result.report;
+
+      if (this.options.viewJsonPath) {
+        this.statusText.text = 'Loading views...';
+        await loadViews(this.options.viewJsonPath);
+      }
       
+      if (this.report.failed.length > 0) {
+        logger.warn(`LoadingScene: Continuing without optional assets: ${this.report.failed.map((f) => f.name).join(', ')}`);
+      }
       logger.info('LoadingScene: Assets loaded successfully');
       
       // Show complete status
       this.loadingBar.updateProgress(1);
       this.statusText.text = 'Loading complete!';
+      Globals.accessibility?.announce('Loading complete');
       
       // Add a delay to show 100% for a moment
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -128,22 +177,61 @@ export default class LoadingScene extends Container {
           .onComplete(() => {
             logger.info('LoadingScene: Animation complete, calling onComplete callback');
             if (this.options.onComplete) {
-              this.options.onComplete(this.assets);
+              this.options.onComplete(this.assets, this.report);
             }
             resolve(this.assets);
           })
           .start();
-        Group.shared.update();
+        Group.shared.update(0);
       });
     } catch (error: any) {
+      if (this.destroyed) throw error;
       logger.error(`LoadingScene: Error loading assets: ${error?.message || String(error)}`);
       this.statusText.text = `Error: ${error.message || 'Failed to load assets'}`;
+      Globals.accessibility?.announce('Loading failed', 'assertive');
       throw error;
     } finally {
       this.isLoading = false;
     }
   }
   
+  /**
+   * Load the boot bundles; the rest are loaded on demand by the scenes that need them
+   */
+  private loadBootBundles(): Promise<LoadResult> {
+    if (this.options.bundles) {
+      logger.info(`LoadingScene: Loading bundles ${this.options.bundles.join(', ')}`);
+      return this.loadingManager.loadBundles(this.options.bundles);
+    }
+    logger.info('LoadingScene: Loading all assets');
+    return this.loadingManager.loadAll();
+  }
+
+  /**
+   * Show the failed required assets and resolve when Retry is pressed.
+   * Rejects if the scene is destroyed first.
+   */
+  private waitForRetry(report: LoadReport): Promise<void> {
+    const failed = report.failed.filter((f) => f.required);
+    logger.error('LoadingScene: Required assets failed', failed);
+    this.statusText.text = `Failed to load ${failed.length} required asset(s):\n` +
+      failed.map((f) => `${f.name}: ${f.reason}`).join('\n');
+    this.retryButton.visible = true;
+    this.positionRetryButton();
+    Globals.accessibility?.announce(`Failed to load ${failed.length} required asset(s). Retry is available.`, 'assertive');
+
+    // onClick also fires for keyboard, gamepad and screen-reader activation
+    return new Promise((resolve, reject) => {
+      this.onRetry = () => {
+        this.onRetry = undefined;
+        this.cancelRetry = undefined;
+        this.retryButton.visible = false;
+        resolve();
+      };
+      this.cancelRetry = reject;
+    });
+  }
+
   /**
    * Get the loaded assets
    */
@@ -151,12 +239,20 @@ export default class LoadingScene extends Container {
     return this.assets;
   }
 
+  /**
+   * The loading manager, for loading further bundles after boot
+   */
+  public getLoadingManager(): LoadingManager {
+    return this.loadingManager;
+  }
+
   /**
    * Resize and reposition loading UI
    */
   public resize(width: number, height: number): void {
     this.loadingBar.position.set(width / 2, height / 2);
     this.statusText.position.set(width / 2, height / 2 + 30);
+    this.positionRetryButton();
   }
   
   /**
@@ -164,6 +260,9 @@ export default class LoadingScene extends Container {
    */
   public destroy(options?: boolean | { children?: boolean; texture?: boolean; baseTexture?: boolean }): void {
     logger.info('LoadingScene: Destroying');
+    this.onRetry = undefined;
+    this.cancelRetry?.(new Error('LoadingScene was destroyed while waiting for Retry'));
+    this.cancelRetry = undefined;
     this.loadingBar.destroy(options);
     super.destroy(options);
   }
@@ -1,12 +1,67 @@
 
-import { SceneManager } from './scenemanager';
+import type { Orientation } from './appconfig';
+import type { ButtonEventParams } from './button';
+import { EventBus } from './eventbus';
+import type { Game } from './game';
+import { Globals } from './globals';
+import type { ToggleChangeParams } from './toggle';
+import type { SliderChangeParams } from './slider';
 
-export class MyEmitter //extends PIXI.utils.EventEmitter
+/**
+ * Game-wide event map. Extend it with declaration merging to type your own events:
+ *
+ *     declare module "./myemitter" {
+ *         interface GameEvents { "score:changed": { score: number } }
+ *     }
+ *
+ * Undeclared message types stay allowed (untyped) for Call() compatibility.
+ */
+export interface GameEvents {
+    [msgType: string]: unknown;
+    over: ButtonEventParams;
+    out: ButtonEventParams;
+    down: ButtonEventParams;
+    up: ButtonEventParams;
+    upoutside: ButtonEventParams;
+    click: ButtonEventParams;
+    focus: ButtonEventParams;
+    blur: ButtonEventParams;
+    longpress: ButtonEventParams;
+    repeat: ButtonEventParams;
+    doubletap: ButtonEventParams;
+    /** UIToggle, UICheckbox and RadioGroup */
+    change: ToggleChangeParams;
+    /** UISlider */
+    valuechange: SliderChangeParams;
+    /** Game lifecycle, see createGame() */
+    "game:ready": Game;
+    "game:paused": Game;
+    "game:resumed": Game;
+    "game:destroyed": Game;
+    "game:error": { error: unknown };
+    /** Emitted by SceneManager.resize() when the screen orientation flips */
+    orientationchange: { orientation: Orientation; previous: Orientation };
+}
+
+/** Priority of the bridge into Scene.recievedMessage, so typed listeners run first */
+const LEGACY_BRIDGE_PRIORITY = -1000;
+
+export class MyEmitter extends EventBus<GameEvents>
 {
-    
-    Call(msgType: string, msgParams = {}) {
-        if (msgType != "timer" && msgType != "turnTimer")
-            SceneManager.instance!.recievedMessage(msgType, msgParams);
+    /** Message types published on the bus but not forwarded to Scene.recievedMessage */
+    readonly legacyIgnored = new Set<string>(["timer", "turnTimer"]);
+
+    constructor() {
+        super();
+        // Internal, so off("*") and clear() from game code leave it in place
+        this.onInternal("*", (msgParams, msgType) => {
+            if (!this.legacyIgnored.has(msgType))
+                Globals.sceneManager?.recievedMessage(msgType, msgParams);
+        }, LEGACY_BRIDGE_PRIORITY);
+    }
+
+    Call(msgType: string, msgParams: unknown = {}) {
+        this.emit(msgType, msgParams);
     }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,197 @@
+import { DesignSize, LetterboxMode, Orientation, ScaleMode } from "./appconfig";
+import { LoadingBarOptions } from "./ui/LoadingBar";
+import { logger } from "./utils/logger";
+
+/**
+ * Settings that can change per deployment without rebuilding. Loaded from an
+ * optional JSON file, then overridden by URL query parameters.
+ */
+export interface RuntimeConfig {
+    designSizes?: Partial<Record<Orientation, DesignSize>>;
+    backgroundColor?: number;
+    scaleMode?: ScaleMode;
+    letterbox?: LetterboxMode;
+    manifestPath?: string;
+    basePath?: string;
+    viewJsonPath?: string;
+    /** Bundles to load before the first scene */
+    bundles?: string[];
+    loadingBar?: LoadingBarOptions;
+    /** Log everything, also in production builds */
+    debug?: boolean;
+    lang?: string;
+}
+
+export class RuntimeConfigError extends Error {
+    constructor(public readonly problems: string[]) {
+        super(`Invalid runtime config:\n- ${problems.join("\n- ")}`);
+        this.name = "RuntimeConfigError";
+    }
+}
+
+export interface LoadRuntimeConfigOptions {
+    /** JSON file to load; a missing file (404) is not an error. Pass null to skip it */
+    url?: string | null;
+    /** Query string to read overrides from, defaults to the page's */
+    search?: string;
+}
+
+const SCALE_MODES: ScaleMode[] = ["fit", "fill", "stretch", "fixedWidth", "fixedHeight", "pixelPerfect"];
+const LETTERBOX_MODES: LetterboxMode[] = ["none", "bars", "mask"];
+
+/** Returns a problem description, or null if the value is valid */
+type Check = (value: unknown) => string | null;
+
+const isString: Check = (value) => (typeof value === "string" && value.length > 0 ? null : "must be a non-empty string");
+const isBoolean: Check = (value) => (typeof value === "boolean" ? null : "must be true or false");
+const isPositive: Check = (value) => (typeof value === "number" && value > 0 && Number.isFinite(value) ? null : "must be a positive number");
+const isColor: Check = (value) => (typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 0xffffff ? null : "must be a color like \"#1099bb\" or 0x1099bb");
+const oneOf = (values: string[]): Check => (value) => (values.includes(value as string) ? null : `must be one of ${values.join(", ")}`);
+const isStringList: Check = (value) => (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string" && item.length > 0) ? null : "must be a non-empty list of bundle names");
+
+/** Own keys only, so "constructor" or "__proto__" are not mistaken for known keys (Object.hasOwn needs ES2022) */
+const hasKey = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+const isObjectOf = (checks: Record<string, Check>): Check => (value) => {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) return "must be an object";
+    for (const [key, item] of Object.entries(value)) {
+        const check = hasKey(checks, key) ? checks[key] : undefined;
+        if (!check) return `has unknown key "${key}" (expected ${Object.keys(checks).join(", ")})`;
+        const problem = check(item);
+        if (problem) return `.${key} ${problem}`;
+    }
+    return null;
+};
+
+const isDesignSize = isObjectOf({ width: isPositive, height: isPositive });
+
+const CHECKS: Record<keyof RuntimeConfig, Check> = {
+    designSizes: isObjectOf({ landscape: isDesignSize, portrait: isDesignSize }),
+    backgroundColor: isColor,
+    scaleMode: oneOf(SCALE_MODES),
+    letterbox: oneOf(LETTERBOX_MODES),
+    manifestPath: isString,
+    basePath: isString,
+    viewJsonPath: isString,
+    bundles: isStringList,
+    loadingBar: isObjectOf({
+        width: isPositive,
+        height: isPositive,
+        radius: isPositive,
+        textSize: isPositive,
+        backgroundColor: isColor,
+        fillColor: isColor,
+        textColor: isColor,
+    }),
+    debug: isBoolean,
+    lang: isString,
+};
+
+/** Query parameter name → config key and how to read the string value */
+const URL_PARAMS: Record<string, { key: keyof RuntimeConfig; parse: (raw: string) => unknown }> = {
+    debug: { key: "debug", parse: (raw) => (raw === "" || raw === "1" || raw === "true" ? true : raw === "0" || raw === "false" ? false : raw) },
+    lang: { key: "lang", parse: (raw) => raw },
+    manifest: { key: "manifestPath", parse: (raw) => raw },
+    basePath: { key: "basePath", parse: (raw) => raw },
+    views: { key: "viewJsonPath", parse: (raw) => raw },
+    bundles: { key: "bundles", parse: (raw) => raw.split(",").map((name) => name.trim()).filter(Boolean) },
+    scaleMode: { key: "scaleMode", parse: (raw) => raw },
+    letterbox: { key: "letterbox", parse: (raw) => raw },
+    background: { key: "backgroundColor", parse: (raw) => parseColorString(raw) },
+};
+
+/** "#1099bb", "0x1099bb" and "1099bb" become numbers; anything else is left for validation to reject */
+function parseColorString(raw: string): unknown {
+    return /^(#|0x)?[0-9a-f]{6}$/i.test(raw) ? parseInt(raw.replace(/^#|^0x/i, ""), 16) : raw;
+}
+
+/** Colors in the JSON file may be written as strings too */
+function normalizeColors(data: Record<string, unknown>): Record<string, unknown> {
+    const out = { ...data };
+    if (typeof out.backgroundColor === "string") out.backgroundColor = parseColorString(out.backgroundColor);
+    if (out.loadingBar && typeof out.loadingBar === "object") {
+        const bar = { ...(out.loadingBar as Record<string, unknown>) };
+        for (const key of ["backgroundColor", "fillColor", "textColor"]) {
+            if (typeof bar[key] === "string") bar[key] = parseColorString(bar[key] as string);
+        }
+        out.loadingBar = bar;
+    }
+    return out;
+}
+
+/**
+ * Check every key of a config object and collect the problems.
+ * @param source - Where the values came from, used in the messages
+ */
+export const validateRuntimeConfig = (data: Record<string, unknown>, source: string): string[] => {
+    const problems: string[] = [];
+    for (const [key, value] of Object.entries(data)) {
+        const check = hasKey(CHECKS, key) ? CHECKS[key as keyof RuntimeConfig] : undefined;
+        if (!check) {
+            problems.push(`${source}: unknown key "${key}"`);
+            continue;
+        }
+        const problem = check(value);
+        if (problem) problems.push(`${source}: "${key}" ${problem}, got ${JSON.stringify(value)}`);
+    }
+    return problems;
+};
+
+/**
+ * Read config overrides from a query string, e.g. ?debug=1&lang=de&manifest=...
+ * Unrelated parameters are ignored.
+ */
+export const parseUrlConfig = (search: string = window.location.search): Record<string, unknown> => {
+    const params = new URLSearchParams(search);
+    const out: Record<string, unknown> = {};
+    params.forEach((raw, name) => {
+        const param = URL_PARAMS[name];
+        if (param) out[param.key] = param.parse(raw);
+    });
+    return out;
+};
+
+/**
+ * Load the runtime config JSON (if present) and apply URL overrides.
+ * @throws RuntimeConfigError listing every invalid value
+ */
+export const loadRuntimeConfig = async (options: LoadRuntimeConfigOptions = {}): Promise<RuntimeConfig> => {
+    const url = options.url === undefined ? "config.json" : options.url;
+    const problems: string[] = [];
+    let fileConfig: Record<string, unknown> = {};
+
+    if (url) {
+        let response: Response | null = null;
+        try {
+            response = await fetch(url);
+        } catch (error) {
+            problems.push(`${url}: could not be fetched (${(error as Error)?.message ?? String(error)})`);
+        }
+        if (response && response.ok) {
+            try {
+                const data = await response.json();
+                if (data === null || typeof data !== "object" || Array.isArray(data)) {
+                    problems.push(`${url}: must contain a JSON object`);
+                } else {
+                    fileConfig = normalizeColors(data);
+                    problems.push(...validateRuntimeConfig(fileConfig, url));
+                }
+            } catch (error) {
+                problems.push(`${url}: is not valid JSON (${(error as Error)?.message ?? String(error)})`);
+            }
+        } else if (response && response.status !== 404) {
+            problems.push(`${url}: request failed with ${response.status} ${response.statusText}`);
+        }
+    }
+
+    const urlConfig = parseUrlConfig(options.search);
+    problems.push(...validateRuntimeConfig(urlConfig, "URL parameters"));
+
+    if (problems.length > 0) {
+        throw new RuntimeConfigError(problems);
+    }
+
+    const runtimeConfig = { ...fileConfig, ...urlConfig } as RuntimeConfig;
+    logger.info("Runtime config:", runtimeConfig);
+    return runtimeConfig;
+};
@@ -1,11 +1,42 @@
-import { Container } from "pixi.js";
-import { config } from "./appconfig";
+import { Container, Graphics } from "pixi.js";
+import { Group, Tween } from "tweedle.js";
+import { config, DesignSize, DesignTransform, getDesignTransform, LetterboxMode, Orientation, ScaleMode } from "./appconfig";
 import { BackgroundGraphic, BackgroundSprite } from "./background";
+import { ButtonEventParams } from "./button";
+import { EventHandler, EventKey, EventPayload, ListenerOptions, WildcardPattern } from "./eventbus";
 import { Globals } from "./globals";
+import { LayoutGroup, LayoutOptions } from "./layout";
+import { GameEvents } from "./myemitter";
 import { logger } from "./utils/logger";
+import { BuiltView, ViewBuilder, ViewNode } from "./viewbuilder";
+
+interface SceneTimer {
+    callback: () => void;
+    /** Scene time left until the callback runs */
+    remaining: number;
+    /** Set for repeating timers */
+    interval?: number;
+}
 
 export abstract class Scene {
 
+    /**
+     * Manifest bundles this scene needs. SceneManager loads them before the
+     * scene enters and unloads them once no live scene requires them.
+     */
+    static bundles: string[] = [];
+
+    /** How mainContainer is scaled to the screen; defaults to config.scaleMode */
+    static scaleMode?: ScaleMode;
+
+    /** Bars or a mask outside the design area; defaults to config.letterbox */
+    static letterbox?: LetterboxMode;
+
+    /**
+     * Orientations this scene can be played in; defaults to both. While the
+     * screen is in another one, SceneManager shows a rotate-device overlay.
+     */
+    static orientations?: Orientation[];
 
     sceneContainer: Container;
 
@@ -14,6 +45,20 @@ export abstract class Scene {
     // mainBackground: BackgroundGraphic;
     private mainBackground: BackgroundGraphic | BackgroundSprite;
 
+    /** Current screen placement of mainContainer */
+    designTransform: DesignTransform = getDesignTransform();
+    private letterboxBars?: Graphics;
+    private designMask?: Graphics;
+
+    /** Tweens created through tween(); updated by SceneManager and stopped on teardown */
+    readonly tweens = new Group();
+    private timers = new Map<number, SceneTimer>();
+    private nextTimerId = 1;
+    private disposers: Array<() => void> = [];
+    /** Objects re-laid-out on every resize() */
+    private layouts = new LayoutGroup(() => this.designTransform);
+    private paused = false;
+
 
     constructor(isGraphics: boolean) {
         this.sceneContainer = new Container();
@@ -21,7 +66,7 @@ export abstract class Scene {
             this.mainBackground = new BackgroundGraphic(config.logicalWidth, config.logicalHeight, 0x00000);
         }
         else {
-            this.mainBackground = new BackgroundSprite(Globals.resources.background, window.innerWidth, window.innerHeight);
+            this.mainBackground = new BackgroundSprite(Globals.assets.getTexture("background"), config.screenWidth, config.screenHeight);
             logger.debug("MainBackground created", this.mainBackground);
         }
         this.addChildToFullScene(this.mainBackground);
@@ -44,10 +89,76 @@ export abstract class Scene {
     //     this.fullBackground.updateBackgroundIndex(index);
     // }
 
+    get scaleMode(): ScaleMode {
+        return (this.constructor as typeof Scene).scaleMode ?? config.scaleMode;
+    }
+
+    get letterbox(): LetterboxMode {
+        return (this.constructor as typeof Scene).letterbox ?? config.letterbox;
+    }
+
+    supportsOrientation(orientation: Orientation): boolean {
+        const orientations = (this.constructor as typeof Scene).orientations;
+        return !orientations || orientations.length === 0 || orientations.includes(orientation);
+    }
+
+    /**
+     * Design resolution for the current orientation, or for the scene's own
+     * orientation if it does not support the current one
+     */
+    get designSize(): DesignSize {
+        const orientations = (this.constructor as typeof Scene).orientations;
+        const orientation = this.supportsOrientation(config.orientation) ? config.orientation : orientations![0];
+        return config.designSizes[orientation];
+    }
+
     resetMainContainer() {
-        this.mainContainer.x = config.minLeftX;
-        this.mainContainer.y = config.minTopY;
-        this.mainContainer.scale.set(config.minScaleFactor);
+        const w = Globals.app?.screen.width ?? config.screenWidth;
+        const h = Globals.app?.screen.height ?? config.screenHeight;
+        this.designTransform = getDesignTransform(this.scaleMode, w, h, this.designSize);
+        this.mainContainer.position.set(this.designTransform.x, this.designTransform.y);
+        this.mainContainer.scale.set(this.designTransform.scaleX, this.designTransform.scaleY);
+        this.updateLetterbox(w, h);
+    }
+
+    private updateLetterbox(screenWidth: number, screenHeight: number) {
+        const { x, y, width, height } = this.designTransform;
+        const mode = this.letterbox;
+
+        if (mode === "bars") {
+            if (!this.letterboxBars) {
+                this.letterboxBars = new Graphics();
+                this.sceneContainer.addChild(this.letterboxBars);
+            }
+            // Keep the bars above everything added to the scene so far
+            this.sceneContainer.setChildIndex(this.letterboxBars, this.sceneContainer.children.length - 1);
+            const bars = this.letterboxBars.clear();
+            if (y > 0) {
+                bars.rect(0, 0, screenWidth, y);
+                bars.rect(0, y + height, screenWidth, screenHeight - y - height);
+            }
+            if (x > 0) {
+                bars.rect(0, 0, x, screenHeight);
+                bars.rect(x + width, 0, screenWidth - x - width, screenHeight);
+            }
+            bars.fill(config.letterboxColor);
+        } else if (this.letterboxBars) {
+            this.letterboxBars.destroy();
+            this.letterboxBars = undefined;
+        }
+
+        if (mode === "mask") {
+            if (!this.designMask) {
+                this.designMask = new Graphics();
+                this.sceneContainer.addChild(this.designMask);
+                this.mainContainer.mask = this.designMask;
+            }
+            this.designMask.clear().rect(x, y, width, height).fill(0xffffff);
+        } else if (this.designMask) {
+            this.mainContainer.mask = null;
+            this.designMask.destroy();
+            this.designMask = undefined;
+        }
     }
 
     addToScene(obj: any) {
@@ -56,17 +167,233 @@ export abstract class Scene {
     }
     resize(): void {
         // Stretch background to the full current screen size
-        const w = Globals.app?.screen.width ?? window.innerWidth;
-        const h = Globals.app?.screen.height ?? window.innerHeight;
+        const w = Globals.app?.screen.width ?? config.screenWidth;
+        const h = Globals.app?.screen.height ?? config.screenHeight;
         this.mainBackground.resetBg(w, h);
         this.resetMainContainer();
+        this.layouts.update();
     }
 
     initScene(container: Container) {
         container.addChild(this.sceneContainer);
     }
-    destroyScene() {
-        this.sceneContainer.destroy();
+
+    /**
+     * Tear the scene down: runs onDestroy(), stops everything registered
+     * through the scene and destroys the display tree. The cleanup runs even
+     * if onDestroy() throws.
+     */
+    async destroyScene(): Promise<void> {
+        try {
+            await this.onDestroy();
+        } finally {
+            this.tweens.getAll().forEach((tween) => tween.stop());
+            this.tweens.removeAll();
+            this.timers.clear();
+            this.disposers.splice(0).forEach((dispose) => dispose());
+            this.layouts.clear();
+
+            this.sceneContainer.destroy({ children: true });
+        }
+    }
+
+    get requiredBundles(): string[] {
+        return (this.constructor as typeof Scene).bundles;
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /** Called by SceneManager when an overlay with pauseBelow opens above this scene */
+    pauseScene() {
+        if (this.paused) return;
+        this.paused = true;
+        this.tweens.pause();
+        this.onPause();
+    }
+
+    /** Called by SceneManager when the overlay pausing this scene closes */
+    resumeScene() {
+        if (!this.paused) return;
+        this.paused = false;
+        this.tweens.resume();
+        this.onResume();
+    }
+
+    // Lifecycle hooks, called by SceneManager. Override as needed.
+
+    /** Before the scene is mounted; load or prepare anything it needs */
+    onPreload(): void | Promise<void> { }
+
+    /** After the scene is mounted and any transition into it has finished */
+    onEnter(): void | Promise<void> { }
+
+    /** Before the scene is transitioned out and destroyed */
+    onExit(): void | Promise<void> { }
+
+    /** An overlay with pauseBelow opened above this scene */
+    onPause(): void { }
+
+    /** The overlay pausing this scene was closed */
+    onResume(): void { }
+
+    /**
+     * The screen switched between portrait and landscape. Runs before resize(),
+     * so this is the place to swap in an alternative layout.
+     */
+    onOrientationChange(_orientation: Orientation): void { }
+
+    /** Right before the scene's tweens, timers and display tree are cleaned up */
+    onDestroy(): void | Promise<void> { }
+
+    /**
+     * Create a tween owned by this scene. It pauses with the scene and is
+     * stopped when the scene is destroyed.
+     */
+    tween<T>(target: T): Tween<T> {
+        return new Tween(target, this.tweens);
+    }
+
+    /**
+     * Run callback after delayMs of scene time. Like the scene's tweens it
+     * counts the ticker's delta, so it holds still while the scene or the game
+     * is paused, and it is cleared when the scene is destroyed.
+     */
+    setTimer(callback: () => void, delayMs: number): number {
+        return this.addTimer({ callback, remaining: delayMs });
+    }
+
+    /** Run callback every intervalMs of scene time, paused and cleared like setTimer() */
+    setRepeatingTimer(callback: () => void, intervalMs: number): number {
+        return this.addTimer({ callback, remaining: intervalMs, interval: intervalMs });
+    }
+
+    clearTimer(id: number) {
+        this.timers.delete(id);
+    }
+
+    /** Advance the timers; called by SceneManager every frame the scene is not paused */
+    updateTimers(deltaMS: number) {
+        // Timers added by a callback start counting next frame
+        for (const [id, timer] of Array.from(this.timers)) {
+            if (!this.timers.has(id)) continue;
+            timer.remaining -= deltaMS;
+            if (timer.remaining > 0) continue;
+            if (timer.interval === undefined) {
+                this.timers.delete(id);
+            } else {
+                // After a long frame, skip the missed repeats instead of running them all at once
+                timer.remaining += timer.interval;
+                if (timer.remaining <= 0) timer.remaining = timer.interval;
+            }
+            timer.callback();
+        }
+    }
+
+    private addTimer(timer: SceneTimer): number {
+        const id = this.nextTimerId++;
+        this.timers.set(id, timer);
+        return id;
+    }
+
+    /**
+     * Subscribe to an event emitter (Pixi display objects, EventEmitter...)
+     * for the lifetime of the scene.
+     */
+    listen<T extends unknown[]>(
+        target: { on(event: string, fn: (...args: T) => void): unknown; off(event: string, fn: (...args: T) => void): unknown },
+        event: string,
+        fn: (...args: T) => void
+    ): () => void {
+        target.on(event, fn);
+        return this.track(() => target.off(event, fn));
+    }
+
+    /**
+     * Subscribe to Globals.emitter for the lifetime of the scene.
+     * @returns a function that unsubscribes early
+     */
+    subscribe<K extends EventKey<GameEvents> | WildcardPattern>(
+        event: K,
+        handler: EventHandler<EventPayload<GameEvents, K>>,
+        options?: ListenerOptions
+    ): () => void {
+        if (!Globals.emitter) {
+            logger.warn(`Scene.subscribe("${event}") called before Globals.emitter exists`);
+            return () => { };
+        }
+        return this.track(Globals.emitter.on(event, handler, options));
+    }
+
+    /**
+     * Run a handler whenever a button whose action (or id) matches is clicked.
+     * Lets several emitter-driven buttons share one scene without a switch
+     * in recievedMessage().
+     */
+    onAction(action: string, handler: (params: ButtonEventParams) => void): () => void {
+        return this.subscribe("click", (params) => {
+            if (params?.action === action || params?.id === action) handler(params);
+        });
+    }
+
+    /**
+     * Load an asset that only this scene needs. It is released from
+     * Globals.assets (and unloaded if nothing else holds it) on teardown.
+     */
+    async loadAsset<T = unknown>(key: string, src?: string): Promise<T> {
+        const asset = await Globals.assets.load<T>(key, src);
+        this.track(() => Globals.assets.release(key));
+        return asset;
+    }
+
+    /** Keep an already loaded asset alive for the lifetime of the scene */
+    retainAsset(key: string) {
+        Globals.assets.retain(key);
+        this.track(() => Globals.assets.release(key));
+    }
+
+    /**
+     * Build a view from the loaded view JSON (or a node) and add it to the
+     * scene, by default into mainContainer.
+     */
+    buildView(view: string | ViewNode, parent: Container = this.mainContainer): BuiltView {
+        const built = ViewBuilder.build(view);
+        parent.addChild(built.root);
+        built.layouts.forEach(({ target, options }) => this.layout(target, options));
+        return built;
+    }
+
+    /**
+     * Pin an object to a screen or design-area edge with margins, percentage
+     * sizes and scale limits. The layout is redone on every resize().
+     * The object must already be added to its parent.
+     */
+    layout<T extends Container>(target: T, options: LayoutOptions): T {
+        this.layouts.add(target, options);
+        return target;
+    }
+
+    /** Stop re-laying-out an object */
+    unlayout(target: Container) {
+        this.layouts.remove(target);
+    }
+
+    /**
+     * Register a cleanup callback to run when the scene is destroyed.
+     * @returns a function that runs it early instead; it runs only once
+     */
+    track(dispose: () => void): () => void {
+        let disposed = false;
+        const run = () => {
+            if (disposed) return;
+            disposed = true;
+            const index = this.disposers.indexOf(run);
+            if (index !== -1) this.disposers.splice(index, 1);
+            dispose();
+        };
+        this.disposers.push(run);
+        return run;
     }
 
     addChildToFullScene(component: any) {
@@ -81,5 +408,9 @@ export abstract class Scene {
 
     abstract update(dt: number): void;
 
-    abstract recievedMessage(msgType: string, msgParams: any): void;
+    /**
+     * Handle a message from Globals.emitter. Overlay scenes receive messages
+     * before the scenes underneath; return true to stop further delivery.
+     */
+    abstract recievedMessage(msgType: string, msgParams: any): void | boolean;
 }
\ No newline at end of file
@@ -1,10 +1,47 @@
-    import * as PIXI from "pixi.js";
+import * as PIXI from "pixi.js";
+import { Tween, Group } from "tweedle.js";
+import { config, Orientation } from "./appconfig";
+import type { Focusable } from "./focusmanager";
 import { Globals } from "./globals";
 import { Scene } from "./scene";
+import { SceneTransition } from "./transitions";
+import BundleLoadingView from "./loaders/BundleLoadingView";
+import RotateDeviceOverlay, { RotateDeviceOverlayOptions } from "./ui/RotateDeviceOverlay";
+import { logger } from "./utils/logger";
+
+export interface OverlayOptions {
+    /** Stop calling update() on the scenes underneath while this overlay is open */
+    pauseBelow?: boolean;
+    /** Block input and messages from reaching the scenes underneath */
+    modal?: boolean;
+    transition?: SceneTransition;
+}
+
+/** A Scene subclass that can be constructed without arguments */
+export type SceneClass<T extends Scene = Scene> = {
+    new(): T;
+    bundles: string[];
+};
+
+interface OverlayEntry {
+    scene: Scene;
+    options: OverlayOptions;
+    /** Had keyboard focus when the overlay opened; gets it back when it closes */
+    returnFocus: Focusable | null;
+}
+
+interface ActiveTransition {
+    transition: SceneTransition;
+    state: { progress: number };
+    outgoing: Scene | null;
+    tween: Tween<{ progress: number }>;
+    /** The screen was resized while the transition had the scenes moved */
+    resized: boolean;
+}
 
 export class SceneManager {
 
-    private static _instance: SceneManager;
+    private static _instance: SceneManager | undefined;
 
     public static get instance(): SceneManager {
         if (!SceneManager._instance) {
@@ -14,31 +51,405 @@ export class SceneManager {
     }
 
     container!: PIXI.Container;
+    /** Base scene of the stack */
     scene: Scene | null = null;
+    /** Overlay scenes rendered above the base scene, bottom to top */
+    private overlays: OverlayEntry[] = [];
+
+    /** Sits above the scenes; transitions draw their color fills and masks here */
+    private transitionLayer: PIXI.Container;
+    private activeTransition: ActiveTransition | null = null;
+    /** Advanced by update() with the ticker's delta, so transitions stop while the game is paused */
+    private transitionTweens = new Group();
+    private pending: Promise<void> = Promise.resolve();
+    private loadingView: BundleLoadingView | null = null;
+    private orientation: Orientation = config.orientation;
+    private rotateOverlay: RotateDeviceOverlay | null = null;
+    private destroyed = false;
+
+    /** Set to false to skip the rotate-device overlay for orientation-locked scenes */
+    showRotateOverlay = true;
+    rotateOverlayOptions: RotateDeviceOverlayOptions = {};
 
     constructor() {
         SceneManager._instance = this;
         Globals.sceneManager = this;
         
         this.container = new PIXI.Container();
+        this.transitionLayer = new PIXI.Container();
+        this.container.addChild(this.transitionLayer);
     }
 
-    start(scene: Scene) {
-        if (this.scene) {
-            this.scene.destroyScene();
+    get isTransitioning(): boolean {
+        return this.activeTransition !== null;
+    }
+
+    /** The scene currently on top of the stack */
+    get topScene(): Scene | null {
+        return this.overlays.length > 0 ? this.overlays[this.overlays.length - 1].scene : this.scene;
+    }
+
+    get overlayCount(): number {
+        return this.overlays.length;
+    }
+
+    /**
+     * Replace the base scene, closing any open overlays. Without a transition
+     * the switch is a hard cut; with one, both scenes stay mounted and input is
+     * blocked until it finishes. Calls made while a transition is running are
+     * queued behind it.
+     */
+    start(scene: Scene, transition?: SceneTransition): Promise<void> {
+        return this.enqueue(() => this.switchTo(scene, transition));
+    }
+
+    /**
+     * Load a scene's bundles before constructing it, then start it. Use this
+     * for scenes whose constructor already needs assets from their bundles.
+     */
+    async startScene<T extends Scene>(SceneClass: SceneClass<T>, transition?: SceneTransition): Promise<T> {
+        // The class holds the bundles until the instance takes them over in start()
+        await this.loadBundles(SceneClass, SceneClass.bundles);
+        try {
+            const scene = new SceneClass();
+            await this.start(scene, transition);
+            return scene;
+        } finally {
+            Globals.bundleManager?.release(SceneClass);
+        }
+    }
+
+    /**
+     * Open an overlay scene (pause menu, popup...) above the current stack.
+     */
+    push(scene: Scene, options: OverlayOptions = {}): Promise<void> {
+        return this.enqueue(async () => {
+            await this.prepare(scene);
+            const returnFocus = Globals.focusManager?.current ?? null;
+            this.mount(scene);
+            this.overlays.push({ scene, options, returnFocus });
+            this.refreshStack();
+
+            if (options.transition) {
+                await this.runTransition(options.transition, null, scene);
+            }
+            await scene.onEnter();
+        });
+    }
+
+    /**
+     * Close the top overlay and hand input back to the scene underneath.
+     * Does nothing when only the base scene is left.
+     */
+    pop(transition?: SceneTransition): Promise<void> {
+        return this.enqueue(async () => {
+            const entry = this.overlays[this.overlays.length - 1];
+            if (!entry) return;
+
+            await entry.scene.onExit();
+            const closing = transition ?? entry.options.transition;
+            if (closing) {
+                await this.runTransition(closing, entry.scene, null);
+            }
+
+            this.overlays.pop();
+            await this.dispose(entry.scene);
+            this.refreshStack();
+            Globals.focusManager?.restore(entry.returnFocus);
+        });
+    }
+
+    /**
+     * Swap the top of the stack for another scene. Replacing an overlay keeps
+     * the scenes below it; with no overlays open this behaves like start().
+     */
+    replace(scene: Scene, options: OverlayOptions = {}): Promise<void> {
+        return this.enqueue(async () => {
+            const entry = this.overlays[this.overlays.length - 1];
+            if (!entry) {
+                await this.switchTo(scene, options.transition);
+                return;
+            }
+
+            await this.prepare(scene);
+            this.mount(scene);
+            this.overlays[this.overlays.length - 1] = { scene, options, returnFocus: entry.returnFocus };
+            this.refreshStack();
+
+            await entry.scene.onExit();
+            if (options.transition) {
+                await this.runTransition(options.transition, entry.scene, scene);
+            }
+            await this.dispose(entry.scene);
+            await scene.onEnter();
+        });
+    }
+
+    /**
+     * Close every scene and destroy the manager's display tree. Waits for
+     * scene changes already queued; later calls are rejected.
+     */
+    destroy(): Promise<void> {
+        // The ticker may already be stopped; end a running transition now so the queue can drain
+        this.activeTransition?.tween.stop();
+        const run = this.enqueue(async () => {
+            this.transitionTweens.removeAll();
+            const scenes = [...this.overlays.splice(0).reverse().map((entry) => entry.scene), this.scene];
             this.scene = null;
+            for (const scene of scenes) {
+                if (!scene) continue;
+                await scene.onExit();
+                await this.dispose(scene);
+            }
+            this.container.destroy({ children: true });
+            this.rotateOverlay = null;
+            this.loadingView = null;
+
+            if (SceneManager._instance === this) SceneManager._instance = undefined;
+            if (Globals.sceneManager === this) Globals.sceneManager = undefined;
+        });
+        this.destroyed = true;
+        return run;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        if (this.destroyed) {
+            return Promise.reject(new Error("SceneManager has been destroyed"));
+        }
+        const run = this.pending.then(task);
+        // Keep the queue alive if a scene hook throws; the caller still gets the rejection
+        this.pending = run.catch((error) => logger.error("SceneManager: scene change failed", error));
+        return run;
+    }
+
+    /**
+     * Load the scene's bundles and run onPreload(). If either fails the scene
+     * is destroyed, taking its focus and accessibility registrations with it.
+     */
+    private async prepare(scene: Scene) {
+        try {
+            await this.loadBundles(scene, scene.requiredBundles);
+            await scene.onPreload();
+        } catch (error) {
+            await this.dispose(scene).catch((disposeError) => logger.error("SceneManager: destroying a scene that failed to load failed", disposeError));
+            throw error;
+        }
+    }
+
+    private async dispose(scene: Scene) {
+        try {
+            await scene.destroyScene();
+        } finally {
+            Globals.bundleManager?.release(scene);
+        }
+    }
+
+    /**
+     * Acquire bundles for an owner, showing a progress overlay if any of them
+     * still has to be downloaded.
+     */
+    private async loadBundles(owner: object, bundles: string[]) {
+        const manager = Globals.bundleManager;
+        if (!manager || bundles.length === 0) return;
+        if (!manager.needsLoading(bundles)) {
+            await manager.acquire(owner, bundles);
+            return;
+        }
+
+        const { width, height } = this.getScreenSize();
+        const view = new BundleLoadingView(bundles);
+        view.resize(width, height);
+        this.container.addChild(view);
+        this.loadingView = view;
+        try {
+            await manager.acquire(owner, bundles, (progress) => view.updateProgress(progress));
+        } finally {
+            this.loadingView = null;
+            view.destroy({ children: true });
+        }
+    }
+
+    private mount(scene: Scene) {
+        scene.initScene(this.container);
+        this.container.addChild(this.transitionLayer);
+        scene.resize();
+    }
+
+    private async switchTo(scene: Scene, transition?: SceneTransition): Promise<void> {
+        const previous = this.scene;
+
+        await this.prepare(scene);
+
+        for (const entry of this.overlays.splice(0).reverse()) {
+            await entry.scene.onExit();
+            await this.dispose(entry.scene);
         }
 
         this.scene = scene;
-        this.scene.initScene(this.container);
+        this.mount(scene);
+        this.refreshStack();
+
+        if (previous) {
+            await previous.onExit();
+        }
+        if (transition) {
+            await this.runTransition(transition, previous, scene);
+        }
+        if (previous) {
+            await this.dispose(previous);
+        }
+
+        await scene.onEnter();
     }
 
-    update(dt: number) {
-       
+    /**
+     * Only scenes with no modal overlay above them receive pointer input, and
+     * scenes under an overlay with pauseBelow are paused.
+     */
+    private refreshStack() {
+        let blocked = false;
+        let paused = false;
+        const apply = (scene: Scene) => {
+            scene.sceneContainer.interactiveChildren = !blocked;
+            if (paused) scene.pauseScene();
+            else scene.resumeScene();
+        };
 
-        if (this.scene && this.scene.update) {
-			this.scene.update(dt);
-		}
+        for (let i = this.overlays.length - 1; i >= 0; i--) {
+            const { scene, options } = this.overlays[i];
+            apply(scene);
+            blocked = blocked || !!options.modal;
+            paused = paused || !!options.pauseBelow;
+        }
+        if (this.scene) {
+            apply(this.scene);
+        }
+        this.updateRotateOverlay();
+    }
+
+    /**
+     * Show the rotate-device overlay while a scene on the stack does not
+     * support the current orientation
+     */
+    private updateRotateOverlay() {
+        const scenes = [this.scene, ...this.overlays.map((entry) => entry.scene)].filter((scene): scene is Scene => scene !== null);
+        const unsupported = scenes.find((scene) => !scene.supportsOrientation(config.orientation));
+        const target: Orientation | null = unsupported ? (config.orientation === "landscape" ? "portrait" : "landscape") : null;
+
+        if (!this.showRotateOverlay || !target) {
+            if (this.rotateOverlay) {
+                this.rotateOverlay.destroy({ children: true });
+                this.rotateOverlay = null;
+            }
+            return;
+        }
+
+        if (this.rotateOverlay?.target !== target) {
+            this.rotateOverlay?.destroy({ children: true });
+            this.rotateOverlay = new RotateDeviceOverlay(target, this.rotateOverlayOptions);
+        }
+        const { width, height } = this.getScreenSize();
+        this.rotateOverlay.resize(width, height);
+        // Re-added each time so it stays above newly mounted scenes and the transition layer
+        this.container.addChild(this.rotateOverlay);
+    }
+
+    /**
+     * Play a transition between two scenes with input blocked. Whatever happens
+     * (a throwing transition, destroy() mid-way), input is given back and the
+     * transition's display objects are removed.
+     */
+    private async runTransition(transition: SceneTransition, outgoing: Scene | null, incoming: Scene | null): Promise<void> {
+        const { width, height } = this.getScreenSize();
+        const state = { progress: 0 };
+        const tween = new Tween(state, this.transitionTweens);
+
+        const active: ActiveTransition = { transition, state, outgoing, tween, resized: false };
+        this.activeTransition = active;
+        this.container.interactiveChildren = false;
+        let isSetUp = false;
+
+        try {
+            transition.setup({
+                from: outgoing?.sceneContainer ?? null,
+                to: incoming?.sceneContainer ?? null,
+                layer: this.transitionLayer,
+                width,
+                height,
+            });
+            isSetUp = true;
+            transition.apply(0);
+
+            let completed = false;
+            await new Promise<void>((resolve, reject) => {
+                tween
+                    .to({ progress: 1 }, transition.durationMs)
+                    .easing(transition.easing)
+                    .onUpdate(() => {
+                        try {
+                            transition.apply(state.progress);
+                        } catch (error) {
+                            reject(error);
+                            tween.stop();
+                        }
+                    })
+                    .onComplete(() => {
+                        completed = true;
+                        resolve();
+                    })
+                    .onStop(() => resolve())
+                    .start();
+                this.transitionTweens.update(0);
+            });
+            if (completed) transition.apply(1);
+        } finally {
+            tween.stop();
+            this.activeTransition = null;
+            if (!this.container.destroyed) this.container.interactiveChildren = true;
+            if (isSetUp) transition.cleanup();
+            // Layouts done mid-transition measured the moved scene; redo them in place
+            if (active.resized && incoming && !incoming.sceneContainer.destroyed) incoming.resize();
+        }
+    }
+
+    private isInStack(scene: Scene): boolean {
+        return scene === this.scene || this.overlays.some((entry) => entry.scene === scene);
+    }
+
+    private updateScene(scene: Scene, dt: number, deltaMS: number) {
+        // Paused groups skip their tweens; fed the ticker's delta so pausing the game pauses them too
+        scene.tweens.update(deltaMS);
+        if (!scene.isPaused) {
+            scene.updateTimers(deltaMS);
+            scene.update(dt);
+        }
+    }
+
+    private getScreenSize(): { width: number; height: number } {
+        return {
+            width: Globals.app?.screen.width ?? config.screenWidth,
+            height: Globals.app?.screen.height ?? config.screenHeight,
+        };
+    }
+
+    /**
+     * @param dt - Ticker deltaTime (frames)
+     * @param deltaMS - Ticker deltaMS, derived from dt if not given
+     */
+    update(dt: number, deltaMS: number = dt / PIXI.Ticker.targetFPMS) {
+        this.transitionTweens.update(deltaMS);
+
+        const outgoing = this.activeTransition?.outgoing;
+        if (outgoing && !this.isInStack(outgoing)) {
+            this.updateScene(outgoing, dt, deltaMS);
+        }
+
+        if (this.scene) {
+            this.updateScene(this.scene, dt, deltaMS);
+        }
+        for (const entry of this.overlays) {
+            this.updateScene(entry.scene, dt, deltaMS);
+        }
 
 		// Globals.stats.update();
 		// Globals.fpsStats.update();
@@ -51,12 +462,46 @@ export class SceneManager {
     }
 
 	resize() {
+		if (config.orientation !== this.orientation) {
+			const previous = this.orientation;
+			this.orientation = config.orientation;
+			this.scene?.onOrientationChange(this.orientation);
+			this.overlays.forEach((entry) => entry.scene.onOrientationChange(this.orientation));
+			Globals.emitter?.Call("orientationchange", { orientation: this.orientation, previous });
+		}
 		if (this.scene) {
 			this.scene.resize();
 		}
+		for (const entry of this.overlays) {
+			entry.scene.resize();
+		}
+		if (this.loadingView) {
+			const { width, height } = this.getScreenSize();
+			this.loadingView.resize(width, height);
+		}
+		if (this.activeTransition) {
+			const { transition, state, outgoing } = this.activeTransition;
+			this.activeTransition.resized = true;
+			if (outgoing && !this.isInStack(outgoing)) {
+				outgoing.resize();
+			}
+			const { width, height } = this.getScreenSize();
+			transition.resize(width, height);
+			transition.apply(state.progress);
+		}
+		this.updateRotateOverlay();
 	}
 
+	/**
+	 * Route a message down the stack, overlays first. Delivery stops at a modal
+	 * overlay or at any scene whose recievedMessage() returns true.
+	 */
 	recievedMessage(msgType: string, msgParams: any) {
+		for (let i = this.overlays.length - 1; i >= 0; i--) {
+			const { scene, options } = this.overlays[i];
+			if (scene.recievedMessage(msgType, msgParams) === true || options.modal) return;
+		}
+
 		if (this.scene && this.scene.recievedMessage) {
 			this.scene.recievedMessage(msgType, msgParams);
 		}
@@ -0,0 +1,277 @@
+import { FederatedPointerEvent, Graphics, Rectangle, Sprite, Texture } from "pixi.js";
+import { AccessibilityLayer } from "./accessibility";
+import { BaseControl, BaseControlOptions, ButtonEventParams } from "./button";
+import { drawFocusRing } from "./focusmanager";
+import { Globals } from "./globals";
+import { clamp } from "./utilities";
+
+export type SliderOrientation = "horizontal" | "vertical";
+
+/** Sent with "valuechange" messages */
+export interface SliderChangeParams extends ButtonEventParams {
+	value: number;
+}
+
+export interface SliderStyle {
+	/** Track size along the slider */
+	length: number;
+	/** Track size across the slider */
+	thickness: number;
+	/** Defaults to half the thickness */
+	radius?: number;
+	trackColor: number;
+	fillColor: number;
+	fillDisabled?: number;
+	knobColor?: number;
+	/** Defaults to the thickness */
+	knobRadius?: number;
+	stroke?: number;
+	strokeWidth?: number;
+}
+
+/** Texture skin; the track's size sets the slider length, fill is revealed up to the value */
+export interface SliderTextures {
+	track: Texture;
+	fill?: Texture;
+	knob: Texture;
+}
+
+export interface UISliderOptions extends BaseControlOptions {
+	min?: number;
+	max?: number;
+	/** Snap to multiples of step; 0 (default) is continuous */
+	step?: number;
+	value?: number;
+	/** Vertical sliders grow upward */
+	orientation?: SliderOrientation;
+	/** Graphics look; ignored when textures are given */
+	style?: SliderStyle;
+	textures?: SliderTextures;
+	/** Arrow key / D-pad step; defaults to step, or a 20th of the range. Never less than step */
+	keyboardStep?: number;
+	/** Text screen readers read for a value, e.g. (v) => `${Math.round(v * 100)}%` */
+	formatValue?: (value: number) => string;
+	onChange?: (value: number) => void;
+	/** Dragging stopped; a good moment to save the value */
+	onChangeEnd?: (value: number) => void;
+}
+
+/** Hit area reaches this far around the track, so thin tracks are easy to grab */
+const HIT_PADDING = 12;
+
+/**
+ * Draggable value control for volume, sensitivity and similar settings.
+ * Click or tap the track to jump, drag the knob, or use the arrow keys,
+ * Home/End and PageUp/PageDown while it has keyboard focus. The origin is the
+ * track's top-left corner. The hover and press tweens scale the knob.
+ */
+export class UISlider extends BaseControl<UISliderOptions> {
+	private current: number;
+	private min: number;
+	private max: number;
+	private step: number;
+	private orientation: SliderOrientation;
+	private length: number;
+	private thickness: number;
+	private style?: SliderStyle;
+	private track: Graphics | Sprite;
+	private fill: Graphics | Sprite;
+	private fillMask?: Graphics;
+	private knob: Graphics | Sprite;
+
+	constructor(options: UISliderOptions) {
+		if (!options.style && !options.textures) {
+			throw new Error("UISlider needs either a style or textures");
+		}
+		super(options, {
+			name: options.accessibleName ?? options.id ?? "Slider",
+			role: options.accessibleRole ?? "slider",
+		});
+		this.min = options.min ?? 0;
+		this.max = options.max ?? 1;
+		this.step = options.step ?? 0;
+		this.orientation = options.orientation ?? "horizontal";
+		this.current = this.snap(options.value ?? this.min);
+
+		const horizontal = this.orientation === "horizontal";
+		if (options.textures) {
+			const { track, fill, knob } = options.textures;
+			this.length = horizontal ? track.width : track.height;
+			this.thickness = horizontal ? track.height : track.width;
+			this.track = new Sprite(track);
+			this.fill = new Sprite(fill ?? Texture.EMPTY);
+			this.fillMask = new Graphics();
+			this.fill.mask = this.fillMask;
+			this.knob = new Sprite(knob);
+			(this.knob as Sprite).anchor.set(0.5);
+			this.addChild(this.track, this.fill, this.fillMask, this.knob);
+		} else {
+			this.style = options.style!;
+			this.length = this.style.length;
+			this.thickness = this.style.thickness;
+			this.track = new Graphics();
+			this.fill = new Graphics();
+			this.knob = new Graphics();
+			this.addChild(this.track, this.fill, this.knob);
+		}
+		this.scaleTarget = this.knob;
+
+		const width = horizontal ? this.length : this.thickness;
+		const height = horizontal ? this.thickness : this.length;
+		this.hitArea = new Rectangle(-HIT_PADDING, -HIT_PADDING, width + HIT_PADDING * 2, height + HIT_PADDING * 2);
+
+		this.addChild(this.focusRing);
+		drawFocusRing(this.focusRing, 0, 0, width, height);
+		AccessibilityLayer.instance.set(this, { value: this.getAccessibleValue() });
+
+		this.on("globalpointermove", (e: FederatedPointerEvent) => {
+			if (this.pointerCaptured) this.setValueFromPointer(e);
+		});
+
+		this.redraw();
+		this.updateVisualsForState(true);
+	}
+
+	get value(): number {
+		return this.current;
+	}
+
+	/**
+	 * @param silent - Move the knob without calling onChange or emitting
+	 */
+	public setValue(value: number, silent = false): void {
+		const next = this.snap(value);
+		if (next === this.current) return;
+		this.current = next;
+		this.redraw();
+		AccessibilityLayer.instance.set(this, { value: this.getAccessibleValue() });
+		if (silent) return;
+
+		this.options.onChange?.(next);
+		if (!this.callbacksOnly) {
+			const params: SliderChangeParams = { id: this.id, action: this.action ?? this.id, payload: this.payload, button: this, value: next };
+			Globals.emitter?.Call("valuechange", params);
+		}
+	}
+
+	public setRange(min: number, max: number, step = this.step): void {
+		this.min = min;
+		this.max = max;
+		this.step = step;
+		this.current = this.snap(this.current);
+		this.redraw();
+		AccessibilityLayer.instance.set(this, { value: this.getAccessibleValue() });
+	}
+
+	public setEnabled(enabled: boolean): void {
+		if (!enabled) this.pointerCaptured = false;
+		super.setEnabled(enabled);
+		this.redraw();
+	}
+
+	public setStyle(style: Partial<SliderStyle>): void {
+		if (!this.style) return;
+		this.style = { ...this.style, ...style };
+		this.redraw();
+	}
+
+	/** Enter/Space/A have nothing to activate on a slider */
+	public focusPress(): void {}
+
+	public focusRelease(): void {}
+
+	/** Arrow keys along the slider step the value; the other arrows still move focus */
+	public handleKey(key: string): boolean {
+		if (this.state === "disabled") return false;
+		const horizontal = this.orientation === "horizontal";
+		// Never less than step, or snapping would undo every key press
+		const keyStep = Math.max(this.options.keyboardStep ?? (this.step > 0 ? this.step : (this.max - this.min) / 20), this.step);
+		let next: number;
+		switch (key) {
+			case horizontal ? "ArrowRight" : "ArrowUp": next = this.current + keyStep; break;
+			case horizontal ? "ArrowLeft" : "ArrowDown": next = this.current - keyStep; break;
+			case "PageUp": next = this.current + keyStep * 10; break;
+			case "PageDown": next = this.current - keyStep * 10; break;
+			case "Home": next = this.min; break;
+			case "End": next = this.max; break;
+			default: return false;
+		}
+		this.setValue(next);
+		this.options.onChangeEnd?.(this.current);
+		return true;
+	}
+
+	/** A pointer press jumps to the pointer and starts dragging */
+	protected onPress(e?: FederatedPointerEvent): void {
+		if (!e) return;
+		this.pointerCaptured = true;
+		this.setValueFromPointer(e);
+	}
+
+	protected onRelease(): void {
+		if (!this.pointerCaptured) return;
+		this.pointerCaptured = false;
+		this.options.onChangeEnd?.(this.current);
+	}
+
+	private setValueFromPointer(e: FederatedPointerEvent): void {
+		const local = this.toLocal(e.global);
+		const t = this.orientation === "horizontal" ? local.x / this.length : 1 - local.y / this.length;
+		this.setValue(this.min + clamp(t, 0, 1) * (this.max - this.min));
+	}
+
+	private snap(value: number): number {
+		let v = clamp(value, Math.min(this.min, this.max), Math.max(this.min, this.max));
+		if (this.step > 0) {
+			v = this.min + Math.round((v - this.min) / this.step) * this.step;
+			// Keep 0.1 steps from turning into 0.30000000000000004
+			v = clamp(Number(v.toFixed(10)), Math.min(this.min, this.max), Math.max(this.min, this.max));
+		}
+		return v;
+	}
+
+	/** Position of the value along the track, 0 to 1 */
+	private get ratio(): number {
+		return this.max === this.min ? 0 : (this.current - this.min) / (this.max - this.min);
+	}
+
+	private getAccessibleValue() {
+		return { now: this.current, min: this.min, max: this.max, text: this.options.formatValue?.(this.current) };
+	}
+
+	private redraw(): void {
+		const horizontal = this.orientation === "horizontal";
+		const filled = this.ratio * this.length;
+		const width = horizontal ? this.length : this.thickness;
+		const height = horizontal ? this.thickness : this.length;
+		// The filled part starts at the left, or at the bottom for vertical sliders
+		const fillRect = horizontal
+			? { x: 0, y: 0, width: filled, height }
+			: { x: 0, y: this.length - filled, width, height: filled };
+
+		if (horizontal) this.knob.position.set(filled, this.thickness / 2);
+		else this.knob.position.set(this.thickness / 2, this.length - filled);
+
+		if (this.fillMask) {
+			this.fillMask.clear().rect(fillRect.x, fillRect.y, fillRect.width, fillRect.height).fill(0xffffff);
+			return;
+		}
+		if (!this.style) return;
+
+		const { trackColor, fillColor, fillDisabled, knobColor = 0xffffff, stroke = 0x000000, strokeWidth = 0 } = this.style;
+		const radius = this.style.radius ?? this.thickness / 2;
+		const track = this.track as Graphics;
+		const fill = this.fill as Graphics;
+		const knob = this.knob as Graphics;
+
+		track.clear().roundRect(0, 0, width, height, radius).fill(trackColor);
+		if (strokeWidth > 0) track.stroke({ color: stroke, width: strokeWidth });
+		fill.clear();
+		if (filled > 0) {
+			fill.roundRect(fillRect.x, fillRect.y, fillRect.width, fillRect.height, Math.min(radius, filled / 2))
+				.fill(this.state === "disabled" && fillDisabled !== undefined ? fillDisabled : fillColor);
+		}
+		knob.clear().circle(0, 0, this.style.knobRadius ?? this.thickness).fill(knobColor);
+		if (strokeWidth > 0) knob.stroke({ color: stroke, width: strokeWidth });
+	}
+}
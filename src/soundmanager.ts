@@ -0,0 +1,379 @@
+import { Howl, Howler } from "howler";
+import { Globals } from "./globals";
+import { clamp } from "./utilities";
+import { logger } from "./utils/logger";
+
+export type SoundChannel = "music" | "sfx" | "voice";
+
+export interface PlayOptions {
+    channel?: SoundChannel;
+    /** Per-play volume (0-1), multiplied with the channel and master volume */
+    volume?: number;
+    loop?: boolean;
+    /** Lower the music while this sound plays. Always on for the voice channel */
+    duck?: boolean;
+}
+
+export interface MusicOptions {
+    volume?: number;
+    loop?: boolean;
+    /** Fade time between the current and the new track */
+    crossfadeMs?: number;
+}
+
+interface SoundSource {
+    howl: Howl;
+    /** Sprite segment to play, for audiosprite sounds */
+    sprite?: string;
+}
+
+interface ActiveSound {
+    howl: Howl;
+    sprite?: string;
+    id: number;
+    channel: SoundChannel;
+    volume: number;
+    ducking: boolean;
+    /** Paused by suspend(), to be resumed once nothing suspends audio anymore */
+    suspended: boolean;
+    /** Fading out before it stops; volume changes must not interrupt the fade */
+    stopping: boolean;
+}
+
+interface StoredSettings {
+    muted: boolean;
+    master: number;
+    channels: Record<SoundChannel, number>;
+}
+
+const STORAGE_KEY = "pixi-project:audio";
+
+/**
+ * Plays sounds and audiosprite segments from Globals.assets on music/sfx/voice
+ * channels with persistent volume settings, music crossfading and ducking.
+ */
+export class SoundManager {
+
+    private static _instance: SoundManager | undefined;
+
+    public static get instance(): SoundManager {
+        if (!SoundManager._instance) {
+            SoundManager._instance = new SoundManager();
+        }
+        return SoundManager._instance;
+    }
+
+    /** Music volume multiplier while a ducking sound plays */
+    duckVolume = 0.3;
+    duckFadeMs = 250;
+
+    private settings: StoredSettings;
+    private active = new Map<number, ActiveSound>();
+    private music: ActiveSound | null = null;
+    private pendingMusic: { key: string; options: MusicOptions } | null = null;
+    private unlocked = false;
+    /** Why audio is currently suspended, e.g. "hidden" (tab in background) or "paused" (pauseAll) */
+    private suspendReasons = new Set<string>();
+    private removeListeners: Array<() => void> = [];
+
+    constructor() {
+        SoundManager._instance = this;
+        Globals.soundManager = this;
+
+        this.settings = this.loadSettings();
+        Howler.mute(this.settings.muted);
+
+        this.setupVisibilityHandler();
+        this.setupUnlock();
+    }
+
+    get muted(): boolean {
+        return this.settings.muted;
+    }
+
+    get masterVolume(): number {
+        return this.settings.master;
+    }
+
+    getChannelVolume(channel: SoundChannel): number {
+        return this.settings.channels[channel];
+    }
+
+    setMuted(muted: boolean) {
+        this.settings.muted = muted;
+        Howler.mute(muted);
+        this.saveSettings();
+    }
+
+    toggleMute(): boolean {
+        this.setMuted(!this.settings.muted);
+        return this.settings.muted;
+    }
+
+    setMasterVolume(volume: number) {
+        this.settings.master = clamp(volume, 0, 1);
+        this.applyVolumes();
+        this.saveSettings();
+    }
+
+    setChannelVolume(channel: SoundChannel, volume: number) {
+        this.settings.channels[channel] = clamp(volume, 0, 1);
+        this.applyVolumes();
+        this.saveSettings();
+    }
+
+    /**
+     * Play a sound effect (or voice line with channel "voice").
+     * @returns the Howler sound id, or undefined if the key is unknown
+     */
+    play(key: string, options: PlayOptions = {}): number | undefined {
+        const source = this.getSource(key);
+        if (!source) return undefined;
+
+        const { howl } = source;
+        const channel = options.channel ?? "sfx";
+        const id = howl.play(source.sprite);
+        const sound: ActiveSound = {
+            howl,
+            sprite: source.sprite,
+            id,
+            channel,
+            volume: options.volume ?? 1,
+            ducking: channel === "voice" || !!options.duck,
+            suspended: false,
+            stopping: false,
+        };
+        howl.loop(!!options.loop, id);
+        this.track(sound);
+        howl.volume(this.effectiveVolume(sound), id);
+
+        if (sound.ducking) this.applyDucking();
+        return id;
+    }
+
+    stop(key: string) {
+        const source = this.getSource(key);
+        if (!source) return;
+        if (!source.sprite) {
+            source.howl.stop();
+            return;
+        }
+        // Only stop the instances of this segment, not the whole sprite
+        this.active.forEach((sound) => {
+            if (sound.howl === source.howl && sound.sprite === source.sprite) sound.howl.stop(sound.id);
+        });
+    }
+
+    /**
+     * Switch the music track, crossfading from the current one.
+     */
+    playMusic(key: string, options: MusicOptions = {}) {
+        if (!this.unlocked && Howler.ctx?.state === "suspended") {
+            // Autoplay is blocked until the first user gesture; start it from the unlock handler
+            this.pendingMusic = { key, options };
+            return;
+        }
+
+        const source = this.getSource(key);
+        if (!source) return;
+        const { howl } = source;
+        if (this.music && this.music.howl === howl && this.music.sprite === source.sprite && howl.playing(this.music.id)) return;
+
+        const fadeMs = options.crossfadeMs ?? 1000;
+        this.stopMusic(fadeMs);
+
+        const id = howl.play(source.sprite);
+        const sound: ActiveSound = {
+            howl,
+            sprite: source.sprite,
+            id,
+            channel: "music",
+            volume: options.volume ?? 1,
+            ducking: false,
+            suspended: false,
+            stopping: false,
+        };
+        howl.loop(options.loop ?? true, id);
+        this.track(sound);
+        this.music = sound;
+
+        if (fadeMs > 0) {
+            howl.volume(0, id);
+            howl.fade(0, this.effectiveVolume(sound), fadeMs, id);
+        } else {
+            howl.volume(this.effectiveVolume(sound), id);
+        }
+    }
+
+    stopMusic(fadeMs = 0) {
+        this.pendingMusic = null;
+        const current = this.music;
+        if (!current) return;
+        this.music = null;
+        current.stopping = true;
+
+        if (fadeMs <= 0) {
+            current.howl.stop(current.id);
+            return;
+        }
+        current.howl.once("fade", () => current.howl.stop(current.id), current.id);
+        current.howl.fade(current.howl.volume(current.id) as number, 0, fadeMs, current.id);
+    }
+
+    stopAll() {
+        this.pendingMusic = null;
+        this.music = null;
+        this.active.forEach((sound) => sound.howl.stop(sound.id));
+        this.active.clear();
+    }
+
+    /** Pause every playing sound until resumeAll() */
+    pauseAll() {
+        this.suspend("paused");
+    }
+
+    resumeAll() {
+        this.unsuspend("paused");
+    }
+
+    /**
+     * Stop all sounds and remove the page listeners. The next
+     * SoundManager.instance access creates a fresh manager.
+     */
+    destroy() {
+        this.stopAll();
+        this.removeListeners.splice(0).forEach((remove) => remove());
+        if (SoundManager._instance === this) SoundManager._instance = undefined;
+        if (Globals.soundManager === this) Globals.soundManager = undefined;
+    }
+
+    private getSource(key: string): SoundSource | undefined {
+        const kind = Globals.assets.getKind(key);
+        if (kind === "sound") return { howl: Globals.assets.getSound(key) };
+        if (kind === "soundSprite") {
+            const sprite = Globals.assets.getSoundSprite(key);
+            return { howl: sprite.howl, sprite: sprite.name };
+        }
+
+        logger.warn(`SoundManager: no sound loaded for key "${key}"`);
+        return undefined;
+    }
+
+    private track(sound: ActiveSound) {
+        this.active.set(sound.id, sound);
+        const release = () => {
+            // Looping sounds fire "end" every loop; only forget them once they really stop
+            if (sound.howl.playing(sound.id)) return;
+            sound.howl.off("end", release, sound.id);
+            sound.howl.off("stop", release, sound.id);
+            this.active.delete(sound.id);
+            if (this.music === sound) this.music = null;
+            if (sound.ducking) this.applyDucking();
+        };
+        sound.howl.on("end", release, sound.id);
+        sound.howl.on("stop", release, sound.id);
+    }
+
+    private isDucked(): boolean {
+        for (const sound of this.active.values()) {
+            if (sound.ducking) return true;
+        }
+        return false;
+    }
+
+    private effectiveVolume(sound: ActiveSound): number {
+        const duck = sound.channel === "music" && this.isDucked() ? this.duckVolume : 1;
+        return sound.volume * this.settings.channels[sound.channel] * this.settings.master * duck;
+    }
+
+    private applyVolumes() {
+        this.active.forEach((sound) => {
+            if (!sound.stopping) sound.howl.volume(this.effectiveVolume(sound), sound.id);
+        });
+    }
+
+    private applyDucking() {
+        this.active.forEach((sound) => {
+            if (sound.channel !== "music" || sound.stopping) return;
+            const from = sound.howl.volume(sound.id) as number;
+            sound.howl.fade(from, this.effectiveVolume(sound), this.duckFadeMs, sound.id);
+        });
+    }
+
+    private suspend(reason: string) {
+        if (this.suspendReasons.size === 0) {
+            this.active.forEach((sound) => {
+                if (!sound.howl.playing(sound.id)) return;
+                sound.suspended = true;
+                sound.howl.pause(sound.id);
+            });
+        }
+        this.suspendReasons.add(reason);
+    }
+
+    private unsuspend(reason: string) {
+        if (!this.suspendReasons.delete(reason) || this.suspendReasons.size > 0) return;
+        this.active.forEach((sound) => {
+            if (!sound.suspended) return;
+            sound.suspended = false;
+            sound.howl.play(sound.id);
+        });
+    }
+
+    private setupVisibilityHandler() {
+        const onVisibilityChange = () => {
+            if (document.hidden) this.suspend("hidden");
+            else this.unsuspend("hidden");
+        };
+        document.addEventListener("visibilitychange", onVisibilityChange);
+        this.removeListeners.push(() => document.removeEventListener("visibilitychange", onVisibilityChange));
+    }
+
+    /**
+     * Mobile browsers keep the audio context suspended until a user gesture;
+     * resume it on the first one and start any music requested before that.
+     */
+    private setupUnlock() {
+        const events = ["pointerdown", "touchend", "keydown"];
+        const removeUnlock = () => events.forEach((type) => window.removeEventListener(type, unlock, true));
+        const unlock = () => {
+            removeUnlock();
+            const resumed = Howler.ctx && Howler.ctx.state === "suspended" ? Howler.ctx.resume() : Promise.resolve();
+            resumed.then(() => {
+                this.unlocked = true;
+                if (this.pendingMusic) {
+                    const { key, options } = this.pendingMusic;
+                    this.pendingMusic = null;
+                    this.playMusic(key, options);
+                }
+            }).catch((error) => logger.warn("SoundManager: could not unlock audio", error));
+        };
+        events.forEach((type) => window.addEventListener(type, unlock, true));
+        this.removeListeners.push(removeUnlock);
+    }
+
+    private loadSettings(): StoredSettings {
+        const defaults: StoredSettings = { muted: false, master: 1, channels: { music: 1, sfx: 1, voice: 1 } };
+        try {
+            const raw = window.localStorage.getItem(STORAGE_KEY);
+            if (!raw) return defaults;
+            const stored = JSON.parse(raw) as Partial<StoredSettings>;
+            return {
+                muted: stored.muted ?? defaults.muted,
+                master: stored.master ?? defaults.master,
+                channels: { ...defaults.channels, ...stored.channels },
+            };
+        } catch (error) {
+            logger.warn("SoundManager: ignoring unreadable audio settings", error);
+            return defaults;
+        }
+    }
+
+    private saveSettings() {
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+        } catch (error) {
+            logger.warn("SoundManager: could not persist audio settings", error);
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { Howl } from "howler";
+
+/**
+ * One named segment of an audiosprite. Wraps the shared Howl so the segment
+ * can be played like a standalone sound. stop() and playing() without an id
+ * only look at the instances this segment started, never at other segments
+ * of the same sprite.
+ */
+export class SoundSprite {
+
+    private ids = new Set<number>();
+
+    constructor(public readonly howl: Howl, public readonly name: string) { }
+
+    play(): number {
+        const id = this.howl.play(this.name);
+        if (typeof id === "number") this.track(id);
+        return id;
+    }
+
+    stop(id?: number) {
+        if (id !== undefined) {
+            this.howl.stop(id);
+            return;
+        }
+        this.ids.forEach((playing) => this.howl.stop(playing));
+    }
+
+    playing(id?: number): boolean {
+        if (id !== undefined) return this.howl.playing(id);
+        for (const playing of this.ids) {
+            if (this.howl.playing(playing)) return true;
+        }
+        return false;
+    }
+
+    private track(id: number) {
+        this.ids.add(id);
+        const release = () => {
+            // Looping segments fire "end" every loop; only forget them once they really stop
+            if (this.howl.playing(id)) return;
+            this.howl.off("end", release, id);
+            this.howl.off("stop", release, id);
+            this.ids.delete(id);
+        };
+        this.howl.on("end", release, id);
+        this.howl.on("stop", release, id);
+    }
+}
@@ -1,4 +1,5 @@
 import { Text, TextStyle } from "pixi.js";
+import { AccessibilityLayer, AccessibleOptions } from "./accessibility";
 
 /**
  * Enhanced TextLabel class that extends PIXI.Text with simplified creation and updating
@@ -13,6 +14,7 @@ export class TextLabel extends Text {
      * @param size - Font size
      * @param defaultColor - Text color (hex)
      * @param font - Font family
+     * @param accessibleOptions - Expose the label to screen readers; the name defaults to the text
      */
     constructor(
         x: number, 
@@ -21,7 +23,8 @@ export class TextLabel extends Text {
         textToShow: string, 
         size: number, 
         public defaultColor: number = 0xff7f50, 
-        font: string = "Lato"
+        font: string = "Lato",
+        private accessibleOptions?: AccessibleOptions
     ) {
         const style = new TextStyle({
             fontFamily: font,
@@ -37,6 +40,14 @@ export class TextLabel extends Text {
         this.x = x;
         this.y = y;
         this.anchor.set(anchor);
+
+        if (accessibleOptions) {
+            AccessibilityLayer.instance.add(this, {
+                name: accessibleOptions.accessibleName ?? textToShow,
+                role: accessibleOptions.accessibleRole ?? "text",
+                description: accessibleOptions.accessibleDescription,
+            });
+        }
     }
 
     /**
@@ -45,6 +56,9 @@ export class TextLabel extends Text {
      */
     updateLabelText(text: string): void {
         this.text = text;
+        if (this.accessibleOptions && !this.accessibleOptions.accessibleName) {
+            AccessibilityLayer.instance.set(this, { name: text });
+        }
     }
     
     /**
@@ -0,0 +1,397 @@
+import { Container, Graphics, Sprite, Texture, TextStyle } from "pixi.js";
+import { Tween, Group, Easing } from "tweedle.js";
+import { AccessibilityLayer, AccessibleRole } from "./accessibility";
+import { BaseControl, BaseControlOptions, ButtonEventParams, ButtonIdentity } from "./button";
+import { drawFocusRing } from "./focusmanager";
+import { Globals } from "./globals";
+import { TextLabel } from "./textlabel";
+
+/** Sent with "change" messages by toggles, checkboxes and radio groups */
+export interface ToggleChangeParams extends ButtonEventParams {
+	checked: boolean;
+	/** The control's value; for radio groups the newly selected value */
+	value?: string;
+}
+
+/** Texture variant of a toggle or checkbox; the disabled textures fall back to on/off */
+export interface ToggleTextures {
+	off: Texture;
+	on: Texture;
+	offDisabled?: Texture;
+	onDisabled?: Texture;
+}
+
+export interface ToggleControlOptions extends BaseControlOptions {
+	checked?: boolean;
+	/** Reported in change events; radio buttons need one */
+	value?: string;
+	/** Text shown to the right of the control */
+	labelText?: string;
+	labelStyle?: TextStyle;
+	onChange?: (checked: boolean) => void;
+}
+
+const LABEL_GAP = 12;
+
+/**
+ * Shared on/off behaviour of UIToggle and UICheckbox: BaseControl's state
+ * machine, tweens, focus and screen-reader support, and a checked flag
+ * flipped on click. The origin is the control's top-left corner.
+ *
+ * Besides the global "change" message it emits a local "change" event with
+ * the new checked value, which RadioGroup listens to.
+ */
+export abstract class ToggleControl extends BaseControl<ToggleControlOptions> {
+	protected checked: boolean;
+	/** Holds the drawn control; scaled by the hover/press tweens around its center */
+	protected visual = new Container();
+	private titleLabel?: TextLabel;
+	public value?: string;
+	/** Set by RadioGroup, which then emits the change messages for this control */
+	public group?: RadioGroup;
+
+	/**
+	 * @param width - Size of the drawn control, without the label
+	 * @param height - Size of the drawn control, without the label
+	 */
+	constructor(options: ToggleControlOptions, role: AccessibleRole, width: number, height: number) {
+		super(options, {
+			name: options.accessibleName ?? options.labelText ?? options.id ?? role,
+			role: options.accessibleRole ?? role,
+			checked: !!options.checked,
+		});
+		this.value = options.value;
+		this.checked = !!options.checked;
+		this.scaleTarget = this.visual;
+
+		this.visual.pivot.set(width / 2, height / 2);
+		this.visual.position.set(width / 2, height / 2);
+		this.addChild(this.visual);
+
+		let ringWidth = width;
+		if (options.labelText) {
+			this.titleLabel = new TextLabel(width + LABEL_GAP, height / 2, 0, options.labelText, 20, 0xffffff, "Arial");
+			if (options.labelStyle) this.titleLabel.style = options.labelStyle;
+			this.titleLabel.anchor.set(0, 0.5);
+			this.addChild(this.titleLabel);
+			ringWidth = this.titleLabel.x + this.titleLabel.width;
+		}
+
+		this.addChild(this.focusRing);
+		drawFocusRing(this.focusRing, 0, 0, ringWidth, height);
+	}
+
+	get isChecked(): boolean {
+		return this.checked;
+	}
+
+	/**
+	 * @param silent - Update the visuals without calling onChange or emitting
+	 */
+	public setChecked(checked: boolean, silent = false): void {
+		if (this.checked === checked) return;
+		this.checked = checked;
+		AccessibilityLayer.instance.set(this, { checked });
+		this.drawState(false);
+		if (silent) return;
+
+		this.options.onChange?.(checked);
+		this.emit("change", checked);
+		if (!this.callbacksOnly && !this.group) {
+			const params: ToggleChangeParams = { id: this.id, action: this.action ?? this.id, payload: this.payload, button: this, checked, value: this.value };
+			Globals.emitter?.Call("change", params);
+		}
+	}
+
+	public toggle(): void {
+		this.setChecked(!this.checked);
+	}
+
+	public setLabel(text: string): void {
+		this.titleLabel?.updateLabelText(text);
+		if (!this.options.accessibleName) AccessibilityLayer.instance.set(this, { name: text });
+	}
+
+	/** Draw the control for the current checked and button state */
+	protected abstract drawState(immediate: boolean): void;
+
+	/** Subclasses call this at the end of their constructor, once their style is set */
+	protected updateVisualsForState(immediate = false): void {
+		super.updateVisualsForState(immediate);
+		this.drawState(immediate);
+	}
+
+	protected onActivate(): void {
+		// A selected radio button stays selected until another one is picked
+		if (this.group && this.checked) return;
+		this.toggle();
+	}
+}
+
+export interface ToggleStyle {
+	width: number;
+	height: number;
+	fillOff: number;
+	fillOn: number;
+	fillDisabled?: number;
+	knobColor?: number;
+	/** Gap between the knob and the track edge */
+	knobPadding?: number;
+	stroke?: number;
+	strokeWidth?: number;
+}
+
+export interface UIToggleOptions extends ToggleControlOptions {
+	/** Graphics look; ignored when textures are given */
+	style?: ToggleStyle;
+	textures?: ToggleTextures;
+}
+
+/**
+ * On/off switch: a pill-shaped track with a sliding knob, or a pair of textures
+ */
+export class UIToggle extends ToggleControl {
+	private style?: ToggleStyle;
+	private textures?: ToggleTextures;
+	private track?: Graphics;
+	private knob?: Graphics;
+	private sprite?: Sprite;
+	private knobTween?: Tween<any>;
+
+	constructor(options: UIToggleOptions) {
+		if (!options.style && !options.textures) {
+			throw new Error("UIToggle needs either a style or textures");
+		}
+		const size = options.textures ? options.textures.off : options.style!;
+		super(options, "switch", size.width, size.height);
+
+		if (options.textures) {
+			this.textures = options.textures;
+			this.sprite = new Sprite(options.textures.off);
+			this.visual.addChild(this.sprite);
+		} else {
+			this.style = options.style;
+			this.track = new Graphics();
+			this.knob = new Graphics();
+			this.visual.addChild(this.track, this.knob);
+		}
+		this.updateVisualsForState(true);
+	}
+
+	public setStyle(style: Partial<ToggleStyle>): void {
+		if (!this.style) return;
+		this.style = { ...this.style, ...style };
+		this.drawState(true);
+	}
+
+	protected drawState(immediate: boolean): void {
+		const disabled = this.state === "disabled";
+		if (this.sprite && this.textures) {
+			const { on, off, onDisabled, offDisabled } = this.textures;
+			this.sprite.texture = this.checked ? (disabled && onDisabled) || on : (disabled && offDisabled) || off;
+			return;
+		}
+		if (!this.style || !this.track || !this.knob) return;
+
+		const { width, height, fillOff, fillOn, fillDisabled, knobColor = 0xffffff, knobPadding = 3, stroke = 0x000000, strokeWidth = 0 } = this.style;
+		const radius = height / 2;
+		this.track.clear().roundRect(0, 0, width, height, radius)
+			.fill(disabled && fillDisabled !== undefined ? fillDisabled : this.checked ? fillOn : fillOff);
+		if (strokeWidth > 0) this.track.stroke({ color: stroke, width: strokeWidth });
+
+		this.knob.clear().circle(0, 0, radius - knobPadding).fill(knobColor);
+		this.knob.y = radius;
+		const knobX = this.checked ? width - radius : radius;
+		this.knobTween?.stop();
+		if (immediate) {
+			this.knob.x = knobX;
+			return;
+		}
+		this.knobTween = new Tween(this.knob)
+			.to({ x: knobX }, this.anim.durationMs)
+			.easing(Easing.Cubic.Out)
+			.start();
+		Group.shared.update(0);
+	}
+}
+
+export interface CheckboxStyle {
+	size: number;
+	/** Defaults to a rounded square for "check" and a circle for "dot" */
+	radius?: number;
+	fillOff: number;
+	fillOn: number;
+	fillDisabled?: number;
+	/** "dot" draws a radio button */
+	mark?: "check" | "dot";
+	markColor?: number;
+	stroke?: number;
+	strokeWidth?: number;
+}
+
+export interface UICheckboxOptions extends ToggleControlOptions {
+	/** Graphics look; ignored when textures are given */
+	style?: CheckboxStyle;
+	textures?: ToggleTextures;
+}
+
+/**
+ * Checkbox with an optional label; with `mark: "dot"` it doubles as a radio
+ * button for RadioGroup
+ */
+export class UICheckbox extends ToggleControl {
+	private style?: CheckboxStyle;
+	private textures?: ToggleTextures;
+	private box?: Graphics;
+	private sprite?: Sprite;
+
+	constructor(options: UICheckboxOptions) {
+		if (!options.style && !options.textures) {
+			throw new Error("UICheckbox needs either a style or textures");
+		}
+		const width = options.textures ? options.textures.off.width : options.style!.size;
+		const height = options.textures ? options.textures.off.height : options.style!.size;
+		super(options, options.style?.mark === "dot" ? "radio" : "checkbox", width, height);
+
+		if (options.textures) {
+			this.textures = options.textures;
+			this.sprite = new Sprite(options.textures.off);
+			this.visual.addChild(this.sprite);
+		} else {
+			this.style = options.style;
+			this.box = new Graphics();
+			this.visual.addChild(this.box);
+		}
+		this.updateVisualsForState(true);
+	}
+
+	public setStyle(style: Partial<CheckboxStyle>): void {
+		if (!this.style) return;
+		this.style = { ...this.style, ...style };
+		this.drawState();
+	}
+
+	protected drawState(): void {
+		const disabled = this.state === "disabled";
+		if (this.sprite && this.textures) {
+			const { on, off, onDisabled, offDisabled } = this.textures;
+			this.sprite.texture = this.checked ? (disabled && onDisabled) || on : (disabled && offDisabled) || off;
+			return;
+		}
+		if (!this.style || !this.box) return;
+
+		const { size, fillOff, fillOn, fillDisabled, mark = "check", markColor = 0xffffff, stroke = 0x000000, strokeWidth = 0 } = this.style;
+		const radius = this.style.radius ?? (mark === "dot" ? size / 2 : size * 0.2);
+		this.box.clear().roundRect(0, 0, size, size, radius)
+			.fill(disabled && fillDisabled !== undefined ? fillDisabled : this.checked ? fillOn : fillOff);
+		if (strokeWidth > 0) this.box.stroke({ color: stroke, width: strokeWidth });
+		if (!this.checked) return;
+
+		if (mark === "dot") {
+			this.box.circle(size / 2, size / 2, size * 0.22).fill(markColor);
+		} else {
+			this.box.moveTo(size * 0.24, size * 0.52)
+				.lineTo(size * 0.43, size * 0.7)
+				.lineTo(size * 0.77, size * 0.3)
+				.stroke({ color: markColor, width: Math.max(2, size * 0.12), cap: "round", join: "round" });
+		}
+	}
+}
+
+export interface RadioGroupOptions extends ButtonIdentity {
+	/** Value selected initially */
+	selected?: string;
+	/** If true, only callbacks are invoked; no global emits are fired */
+	callbacksOnly?: boolean;
+	onChange?: (value: string) => void;
+}
+
+/**
+ * Keeps exactly one of its controls checked. Not a display object: the
+ * controls stay wherever they were added to the scene.
+ */
+export class RadioGroup {
+	private controls: ToggleControl[] = [];
+	private listeners = new Map<ToggleControl, (checked: boolean) => void>();
+	private selected?: string;
+	public id?: string;
+	public action?: string;
+	public payload?: unknown;
+
+	constructor(private options: RadioGroupOptions = {}) {
+		this.id = options.id;
+		this.action = options.action;
+		this.payload = options.payload;
+		this.selected = options.selected;
+	}
+
+	get value(): string | undefined {
+		return this.selected;
+	}
+
+	/**
+	 * Add a control to the group. A control that is already checked selects
+	 * its value if nothing is selected yet; otherwise it is unchecked.
+	 * @param value - Defaults to the control's own value
+	 */
+	add<T extends ToggleControl>(control: T, value: string | undefined = control.value): T {
+		if (value === undefined) {
+			throw new Error("RadioGroup: a control needs a value");
+		}
+		control.value = value;
+		control.group = this;
+		// A control created checked becomes the selection if the group has none yet
+		if (this.selected === undefined && control.isChecked) {
+			this.selected = value;
+		}
+		control.setChecked(value === this.selected, true);
+		AccessibilityLayer.instance.set(control, { role: "radio" });
+		const listener = (checked: boolean) => {
+			if (checked) this.onSelected(control);
+		};
+		this.listeners.set(control, listener);
+		control.on("change", listener);
+		control.once("destroyed", () => this.remove(control));
+		this.controls.push(control);
+		return control;
+	}
+
+	remove(control: ToggleControl) {
+		const index = this.controls.indexOf(control);
+		if (index === -1) return;
+		this.controls.splice(index, 1);
+		control.group = undefined;
+		control.off("change", this.listeners.get(control));
+		this.listeners.delete(control);
+	}
+
+	/**
+	 * @param silent - Update the controls without calling onChange or emitting
+	 */
+	select(value: string, silent = false) {
+		const control = this.controls.find((item) => item.value === value);
+		if (!control) {
+			throw new Error(`RadioGroup: no control with value "${value}"`);
+		}
+		if (silent) {
+			this.selected = value;
+			this.controls.forEach((item) => item.setChecked(item === control, true));
+		} else {
+			control.setChecked(true);
+		}
+	}
+
+	private onSelected(control: ToggleControl) {
+		this.selected = control.value;
+		this.controls.forEach((item) => {
+			if (item !== control) item.setChecked(false, true);
+		});
+
+		const value = control.value!;
+		this.options.onChange?.(value);
+		if (!this.options.callbacksOnly) {
+			const params: ToggleChangeParams = { id: this.id, action: this.action ?? this.id, payload: this.payload, button: control, checked: true, value };
+			Globals.emitter?.Call("change", params);
+		}
+	}
+}
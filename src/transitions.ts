@@ -0,0 +1,225 @@
+import { Container, Graphics } from "pixi.js";
+import { Easing, EasingFunction } from "tweedle.js";
+
+export interface TransitionOptions {
+    durationMs?: number;
+    easing?: EasingFunction;
+}
+
+/**
+ * Display objects a transition animates between. Either side may be null
+ * (e.g. the very first scene has nothing to transition from).
+ */
+export interface TransitionContext {
+    from: Container | null;
+    to: Container | null;
+    /** Layer rendered above both scenes, for color fills or masks */
+    layer: Container;
+    width: number;
+    height: number;
+}
+
+/**
+ * Base class for scene transitions. SceneManager tweens a progress value from
+ * 0 to 1 and calls apply() on every step, so subclasses only describe how the
+ * outgoing and incoming scenes look at a given progress.
+ *
+ * An instance can be reused, e.g. the same one for push() and pop(), but runs
+ * one transition at a time: subclasses create their display objects in
+ * onSetup() and destroy them in onCleanup().
+ */
+export abstract class SceneTransition {
+
+    durationMs: number;
+    easing: EasingFunction;
+
+    protected ctx!: TransitionContext;
+
+    constructor(options: TransitionOptions = {}) {
+        this.durationMs = options.durationMs ?? 400;
+        this.easing = options.easing ?? Easing.Quadratic.InOut;
+    }
+
+    setup(ctx: TransitionContext): void {
+        this.ctx = ctx;
+        this.onSetup();
+    }
+
+    /**
+     * Called when the screen is resized mid-transition. apply() is called
+     * again right after with the current progress.
+     */
+    resize(width: number, height: number): void {
+        this.ctx.width = width;
+        this.ctx.height = height;
+    }
+
+    cleanup(): void {
+        for (const target of [this.ctx.from, this.ctx.to]) {
+            if (!target || target.destroyed) continue;
+            target.position.set(0, 0);
+            target.alpha = 1;
+            target.visible = true;
+        }
+        this.onCleanup();
+    }
+
+    protected onSetup(): void { }
+
+    protected onCleanup(): void { }
+
+    abstract apply(progress: number): void;
+}
+
+export interface FadeTransitionOptions extends TransitionOptions {
+    color?: number;
+}
+
+/**
+ * Fades to a solid color, swaps scenes while fully covered, then fades back.
+ */
+export class FadeTransition extends SceneTransition {
+
+    private color: number;
+    private cover: Graphics | null = null;
+
+    constructor(options: FadeTransitionOptions = {}) {
+        super(options);
+        this.color = options.color ?? 0x000000;
+    }
+
+    protected onSetup(): void {
+        this.cover = new Graphics();
+        this.drawCover();
+        this.ctx.layer.addChild(this.cover);
+    }
+
+    resize(width: number, height: number): void {
+        super.resize(width, height);
+        this.drawCover();
+    }
+
+    apply(progress: number): void {
+        const firstHalf = progress < 0.5;
+        if (this.ctx.from) this.ctx.from.visible = firstHalf;
+        if (this.ctx.to) this.ctx.to.visible = !firstHalf;
+        if (this.cover) this.cover.alpha = firstHalf ? progress * 2 : (1 - progress) * 2;
+    }
+
+    protected onCleanup(): void {
+        this.cover?.destroy();
+        this.cover = null;
+    }
+
+    private drawCover(): void {
+        if (!this.cover) return;
+        this.cover.clear();
+        this.cover.rect(0, 0, this.ctx.width, this.ctx.height);
+        this.cover.fill(this.color);
+    }
+}
+
+/**
+ * Fades the outgoing scene out while the incoming one fades in on top of it.
+ */
+export class CrossfadeTransition extends SceneTransition {
+
+    apply(progress: number): void {
+        if (this.ctx.from) this.ctx.from.alpha = 1 - progress;
+        if (this.ctx.to) this.ctx.to.alpha = progress;
+    }
+}
+
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+export interface SlideTransitionOptions extends TransitionOptions {
+    /** Direction the scenes move in */
+    direction?: TransitionDirection;
+}
+
+/**
+ * Pushes the outgoing scene off screen while the incoming one slides in behind it.
+ */
+export class SlideTransition extends SceneTransition {
+
+    private direction: TransitionDirection;
+
+    constructor(options: SlideTransitionOptions = {}) {
+        super(options);
+        this.direction = options.direction ?? "left";
+    }
+
+    apply(progress: number): void {
+        const { width, height } = this.ctx;
+        const dx = this.direction === "left" ? -width : this.direction === "right" ? width : 0;
+        const dy = this.direction === "up" ? -height : this.direction === "down" ? height : 0;
+
+        this.ctx.from?.position.set(dx * progress, dy * progress);
+        this.ctx.to?.position.set(dx * (progress - 1), dy * (progress - 1));
+    }
+}
+
+export type WipeShape = TransitionDirection | "circle";
+
+export interface WipeTransitionOptions extends TransitionOptions {
+    shape?: WipeShape;
+    /** Draws the revealed region for a custom wipe; overrides `shape` */
+    drawMask?: (mask: Graphics, progress: number, width: number, height: number) => void;
+}
+
+/**
+ * Reveals the incoming scene through a growing Graphics mask.
+ */
+export class WipeTransition extends SceneTransition {
+
+    private shape: WipeShape;
+    private drawMask?: WipeTransitionOptions["drawMask"];
+    private mask: Graphics | null = null;
+
+    constructor(options: WipeTransitionOptions = {}) {
+        super(options);
+        this.shape = options.shape ?? "left";
+        this.drawMask = options.drawMask;
+    }
+
+    protected onSetup(): void {
+        this.mask = new Graphics();
+        this.ctx.layer.addChild(this.mask);
+        if (this.ctx.to) this.ctx.to.mask = this.mask;
+    }
+
+    apply(progress: number): void {
+        if (!this.mask) return;
+        const { width, height } = this.ctx;
+        this.mask.clear();
+
+        if (this.drawMask) {
+            this.drawMask(this.mask, progress, width, height);
+        } else {
+            switch (this.shape) {
+                case "circle":
+                    this.mask.circle(width / 2, height / 2, Math.hypot(width, height) / 2 * progress);
+                    break;
+                case "right":
+                    this.mask.rect(0, 0, width * progress, height);
+                    break;
+                case "left":
+                    this.mask.rect(width * (1 - progress), 0, width * progress, height);
+                    break;
+                case "down":
+                    this.mask.rect(0, 0, width, height * progress);
+                    break;
+                case "up":
+                    this.mask.rect(0, height * (1 - progress), width, height * progress);
+                    break;
+            }
+        }
+        this.mask.fill(0xffffff);
+    }
+
+    protected onCleanup(): void {
+        if (this.ctx.to && !this.ctx.to.destroyed) this.ctx.to.mask = null;
+        this.mask?.destroy();
+        this.mask = null;
+    }
+}
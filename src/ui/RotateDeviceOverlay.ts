@@ -0,0 +1,69 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { Orientation } from '../appconfig';
+
+export interface RotateDeviceOverlayOptions {
+  backgroundColor?: number;
+  iconColor?: number;
+  textColor?: number;
+  message?: string;
+}
+
+/**
+ * Full-screen "please rotate your device" message SceneManager shows while
+ * the scenes on the stack do not support the current orientation.
+ */
+export default class RotateDeviceOverlay extends Container {
+  private background: Graphics;
+  private phone: Graphics;
+  private messageText: Text;
+  private options: Required<RotateDeviceOverlayOptions>;
+
+  /**
+   * @param target - The orientation the player should rotate to
+   */
+  constructor(public readonly target: Orientation, options: RotateDeviceOverlayOptions = {}) {
+    super();
+
+    this.options = {
+      backgroundColor: options.backgroundColor ?? 0x000000,
+      iconColor: options.iconColor ?? 0xffffff,
+      textColor: options.textColor ?? 0xffffff,
+      message: options.message ?? `Please rotate your device to ${target}`,
+    };
+
+    this.background = new Graphics();
+    this.addChild(this.background);
+
+    // Phone outline drawn in the target orientation
+    const [w, h] = target === 'landscape' ? [120, 70] : [70, 120];
+    this.phone = new Graphics()
+      .roundRect(-w / 2, -h / 2, w, h, 10)
+      .stroke({ color: this.options.iconColor, width: 4 })
+      .circle(target === 'landscape' ? w / 2 - 10 : 0, target === 'landscape' ? 0 : h / 2 - 10, 4)
+      .fill(this.options.iconColor);
+    this.addChild(this.phone);
+
+    const textStyle = new TextStyle({
+      fontFamily: 'Arial',
+      fontSize: 22,
+      fill: this.options.textColor,
+      align: 'center',
+      wordWrap: true,
+      wordWrapWidth: 320,
+    });
+    this.messageText = new Text({ text: this.options.message, style: textStyle, resolution: window.devicePixelRatio || 1 });
+    this.messageText.anchor.set(0.5, 0);
+    this.addChild(this.messageText);
+
+    // Keep input away from the scene underneath
+    this.eventMode = 'static';
+  }
+
+  public resize(width: number, height: number): void {
+    this.background.clear();
+    this.background.rect(0, 0, width, height);
+    this.background.fill(this.options.backgroundColor);
+    this.phone.position.set(width / 2, height / 2 - 60);
+    this.messageText.position.set(width / 2, height / 2 + 20);
+  }
+}
@@ -33,7 +33,12 @@ export function clearErrorOverlay() {
   overlayEl.innerText = '';
 }
 
+let overlayInstalled = false;
+
 export function installGlobalErrorOverlay() {
+  // Several games may be created on one page; the handlers are page-wide
+  if (overlayInstalled) return;
+  overlayInstalled = true;
   window.addEventListener('error', (e) => {
     const msg = e?.error?.message || e?.message || 'Unknown error';
     const stack = e?.error?.stack;
@@ -9,8 +9,17 @@ const levelStyle: Record<LogLevel, string> = {
   error: 'background:#ff4d4f;color:#fff;border-radius:4px;padding:2px 6px',
 };
 
+let verbose = false;
+
+/**
+ * Log every level, also in production builds (runtime config `debug`)
+ */
+export function setDebugLogging(enabled: boolean) {
+  verbose = enabled;
+}
+
 function shouldLog(level: LogLevel): boolean {
-  if (env === 'production') {
+  if (env === 'production' && !verbose) {
     return level === 'info';
   }
   return true;
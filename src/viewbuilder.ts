@@ -0,0 +1,292 @@
+import { AnimatedSprite, Container, Sprite } from "pixi.js";
+import { AccessibleOptions } from "./accessibility";
+import { BackgroundGraphic, BackgroundSprite } from "./background";
+import { BaseControl, ButtonAnimationConfig, ButtonAutoSize, ButtonNineSlice, GraphicButtonStyle, UIButton, UIGraphicButton } from "./button";
+import { config } from "./appconfig";
+import { Globals } from "./globals";
+import { LayoutOptions } from "./layout";
+import { TextLabel } from "./textlabel";
+import { logger } from "./utils/logger";
+
+/** Colors may be written as numbers or as "#rrggbb" / "0xrrggbb" strings */
+export type ViewColor = number | string;
+
+export type ViewPoint = number | { x: number; y: number };
+
+/**
+ * One display object in a view JSON. Which fields apply depends on `type`.
+ * text and button nodes take accessibleName/Role/Description for screen readers.
+ */
+export interface ViewNode extends AccessibleOptions {
+    type: string;
+    /** Reference name; built objects are reachable through BuiltView.refs */
+    name?: string;
+    x?: number;
+    y?: number;
+    anchor?: ViewPoint;
+    scale?: ViewPoint;
+    /** Rotation in degrees */
+    angle?: number;
+    alpha?: number;
+    visible?: boolean;
+    width?: number;
+    height?: number;
+    children?: ViewNode[];
+    /** Pin to a screen or design edge; applied by Scene.buildView and redone on resize */
+    layout?: LayoutOptions;
+
+    /** sprite, background: texture key in Globals.assets */
+    texture?: string;
+    /** animatedSprite */
+    animation?: string;
+    spritesheet?: string;
+    animationSpeed?: number;
+    loop?: boolean;
+    autoPlay?: boolean;
+
+    /** text */
+    text?: string;
+    fontSize?: number;
+    font?: string;
+    color?: ViewColor;
+
+    /** button: texture keys per state */
+    textures?: { normal: string; hover?: string; down?: string; disabled?: string };
+    /** graphicButton */
+    style?: Omit<GraphicButtonStyle, "fillNormal" | "fillHover" | "fillDown" | "fillDisabled" | "stroke"> & {
+        fillNormal: ViewColor;
+        fillHover?: ViewColor;
+        fillDown?: ViewColor;
+        fillDisabled?: ViewColor;
+        stroke?: ViewColor;
+    };
+    label?: string;
+    id?: string;
+    action?: string;
+    payload?: unknown;
+    animations?: ButtonAnimationConfig;
+    hitAreaPadding?: number;
+    /** button: nine-slice borders; width/height then resize without stretching the corners */
+    nineSlice?: ButtonNineSlice;
+    autoSize?: boolean | ButtonAutoSize;
+    focusOrder?: number;
+}
+
+/** Creates the display object for a node; children and common props are applied by the builder */
+export type ViewFactory = (node: ViewNode) => Container;
+
+export interface BuiltView {
+    root: Container;
+    refs: Record<string, Container>;
+    /** Objects whose node declared a layout */
+    layouts: Array<{ target: Container; options: LayoutOptions }>;
+    /** Typed access to a named object; throws if the view has no such name */
+    get<T extends Container = Container>(name: string): T;
+}
+
+/** Key the merged view JSON is stored under in Globals.assets */
+export const VIEWS_ASSET_KEY = "gameView";
+
+export const parseColor = (color: ViewColor): number => {
+    if (typeof color === "number") return color;
+    const hex = color.trim().replace(/^#|^0x/i, "");
+    const value = parseInt(hex, 16);
+    if (Number.isNaN(value)) {
+        throw new Error(`Invalid color "${color}" in view JSON`);
+    }
+    return value;
+};
+
+const applyPoint = (target: { set(x: number, y?: number): void }, value: ViewPoint) => {
+    if (typeof value === "number") target.set(value);
+    else target.set(value.x, value.y);
+};
+
+const anchorValue = (value: ViewPoint | undefined, fallback: number): number =>
+    value === undefined ? fallback : typeof value === "number" ? value : value.x;
+
+/** The node's screen-reader fields, or undefined if it has none (text stays out of the accessibility layer) */
+const accessibleOptions = (node: ViewNode): AccessibleOptions | undefined =>
+    node.accessibleName !== undefined || node.accessibleRole !== undefined || node.accessibleDescription !== undefined
+        ? { accessibleName: node.accessibleName, accessibleRole: node.accessibleRole, accessibleDescription: node.accessibleDescription }
+        : undefined;
+
+const factories: Record<string, ViewFactory> = {
+    container: () => new Container(),
+
+    sprite: (node) => new Sprite(Globals.assets.getTexture(requireField(node, "texture"))),
+
+    animatedSprite: (node) => {
+        const sprite = new AnimatedSprite(Globals.assets.getAnimation(requireField(node, "animation"), node.spritesheet));
+        sprite.animationSpeed = node.animationSpeed ?? 1;
+        sprite.loop = node.loop ?? true;
+        if (node.autoPlay ?? true) sprite.play();
+        return sprite;
+    },
+
+    text: (node) => new TextLabel(0, 0, anchorValue(node.anchor, 0.5), node.text ?? "", node.fontSize ?? 24,
+        node.color !== undefined ? parseColor(node.color) : undefined, node.font, accessibleOptions(node)),
+
+    background: (node) => {
+        const width = node.width ?? config.logicalWidth;
+        const height = node.height ?? config.logicalHeight;
+        return node.texture
+            ? new BackgroundSprite(Globals.assets.getTexture(node.texture), width, height)
+            : new BackgroundGraphic(width, height, parseColor(node.color ?? 0x000000));
+    },
+
+    button: (node) => {
+        const textures = requireField(node, "textures");
+        const texture = (key?: string) => (key ? Globals.assets.getTexture(key) : undefined);
+        return new UIButton({
+            textures: {
+                normal: Globals.assets.getTexture(textures.normal),
+                hover: texture(textures.hover),
+                down: texture(textures.down),
+                disabled: texture(textures.disabled),
+            },
+            labelText: node.label,
+            anchor: anchorValue(node.anchor, 0.5),
+            hitAreaPadding: node.hitAreaPadding,
+            nineSlice: node.nineSlice,
+            width: node.width,
+            height: node.height,
+            autoSize: node.autoSize,
+            animations: node.animations,
+            id: node.id,
+            action: node.action,
+            payload: node.payload,
+            focusOrder: node.focusOrder,
+            ...accessibleOptions(node),
+        });
+    },
+
+    graphicButton: (node) => {
+        const style = requireField(node, "style");
+        const optionalColor = (color?: ViewColor) => (color !== undefined ? parseColor(color) : undefined);
+        return new UIGraphicButton({
+            style: {
+                ...style,
+                fillNormal: parseColor(style.fillNormal),
+                fillHover: optionalColor(style.fillHover),
+                fillDown: optionalColor(style.fillDown),
+                fillDisabled: optionalColor(style.fillDisabled),
+                stroke: optionalColor(style.stroke),
+            },
+            labelText: node.label,
+            anchor: anchorValue(node.anchor, 0.5),
+            animations: node.animations,
+            id: node.id,
+            action: node.action,
+            payload: node.payload,
+            focusOrder: node.focusOrder,
+            ...accessibleOptions(node),
+        });
+    },
+};
+
+/** Node fields the factories consume themselves, so the builder must not re-apply them */
+const FACTORY_SIZED_TYPES = new Set(["background", "graphicButton", "button"]);
+const FACTORY_ANCHORED_TYPES = new Set(["text", "button", "graphicButton"]);
+
+function requireField<K extends keyof ViewNode>(node: ViewNode, field: K): NonNullable<ViewNode[K]> {
+    const value = node[field];
+    if (value === undefined || value === null) {
+        throw new Error(`View node "${node.name ?? node.type}" of type ${node.type} needs a "${String(field)}" field`);
+    }
+    return value as NonNullable<ViewNode[K]>;
+}
+
+/**
+ * Builds display trees from the view JSON the pipeline merges into
+ * res/viewJsons/gameView.json.
+ */
+export class ViewBuilder {
+
+    /** Add or override the factory for a node type */
+    static register(type: string, factory: ViewFactory) {
+        factories[type] = factory;
+    }
+
+    /**
+     * Build a view by name from the loaded view JSON, or from a node directly
+     */
+    static build(view: string | ViewNode): BuiltView {
+        const node = typeof view === "string" ? ViewBuilder.getView(view) : view;
+        const refs: Record<string, Container> = {};
+        const layouts: BuiltView["layouts"] = [];
+        const root = ViewBuilder.buildNode(node, refs, layouts);
+
+        return {
+            root,
+            refs,
+            layouts,
+            get<T extends Container = Container>(name: string): T {
+                const ref = refs[name];
+                if (!ref) {
+                    throw new Error(`View has no object named "${name}". Named objects: ${Object.keys(refs).join(", ") || "none"}`);
+                }
+                return ref as T;
+            },
+        };
+    }
+
+    static getView(name: string): ViewNode {
+        const views = Globals.assets.getJson<Record<string, ViewNode>>(VIEWS_ASSET_KEY);
+        const view = views[name];
+        if (!view) {
+            throw new Error(`View "${name}" not found. Available views: ${Object.keys(views).join(", ") || "none"}`);
+        }
+        return view;
+    }
+
+    private static buildNode(node: ViewNode, refs: Record<string, Container>, layouts: BuiltView["layouts"]): Container {
+        const factory = factories[node.type];
+        if (!factory) {
+            throw new Error(`Unknown view node type "${node.type}"${node.name ? ` (${node.name})` : ""}. Known types: ${Object.keys(factories).join(", ")}`);
+        }
+
+        const obj = factory(node);
+        if (node.name) {
+            obj.label = node.name;
+            if (refs[node.name]) logger.warn(`ViewBuilder: duplicate name "${node.name}", the last one wins`);
+            refs[node.name] = obj;
+        }
+
+        obj.position.set(node.x ?? 0, node.y ?? 0);
+        if (node.scale !== undefined) {
+            // Buttons tween their own scale on hover and press, so they take it as their resting scale
+            const control = obj instanceof BaseControl ? obj : null;
+            applyPoint(control ? { set: (x, y) => control.setBaseScale(x, y) } : obj.scale, node.scale);
+        }
+        if (node.angle !== undefined) obj.angle = node.angle;
+        if (node.alpha !== undefined) obj.alpha = node.alpha;
+        if (node.visible !== undefined) obj.visible = node.visible;
+        if (!FACTORY_SIZED_TYPES.has(node.type)) {
+            if (node.width !== undefined) obj.width = node.width;
+            if (node.height !== undefined) obj.height = node.height;
+        }
+        if (node.anchor !== undefined && !FACTORY_ANCHORED_TYPES.has(node.type) && obj instanceof Sprite) {
+            applyPoint(obj.anchor, node.anchor);
+        }
+
+        if (node.layout) layouts.push({ target: obj, options: node.layout });
+
+        for (const child of node.children ?? []) {
+            obj.addChild(ViewBuilder.buildNode(child, refs, layouts));
+        }
+        return obj;
+    }
+}
+
+/**
+ * Fetch the merged view JSON and register it in Globals.assets
+ */
+export const loadViews = async (path: string): Promise<void> => {
+    const response = await fetch(path);
+    if (!response.ok) {
+        throw new Error(`Failed to load views from ${path}: ${response.status} ${response.statusText}`);
+    }
+    Globals.assets.add(VIEWS_ASSET_KEY, await response.json());
+    logger.info(`Views loaded from ${path}`);
+};